@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { getAttachment, readAttachment, verifyAttachmentSignature } from "@/lib/attachments-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+
+interface RouteContext {
+  params: Promise<{ attachmentId: string }>;
+}
+
+// Shown in the browser; anything else (SVG, HTML, PDF...) is downloaded
+const INLINE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif", "image/bmp"];
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Attachment not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+/**
+ * Download an attachment. Works with the signed URL from the chat history
+ * (`?expires=...&signature=...`) or with the owner's Authorization header.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { attachmentId } = await params;
+
+    if (!isValidUUID(attachmentId)) {
+      return notFound();
+    }
+
+    const query = request.nextUrl.searchParams;
+    const signed = verifyAttachmentSignature(attachmentId, query.get("expires"), query.get("signature"));
+    const userId = signed ? undefined : (await authenticateRequest(request)).id;
+
+    const attachment = await getAttachment(attachmentId, userId);
+    if (!attachment) {
+      return notFound();
+    }
+
+    const bytes = await readAttachment(attachment);
+    if (!bytes) {
+      console.error("❌ [ATTACHMENTS] Stored file is missing:", attachment.storage_key);
+      return notFound();
+    }
+
+    const disposition = INLINE_TYPES.includes(attachment.mime_type) ? "inline" : "attachment";
+    return new Response(new Uint8Array(bytes), {
+      headers: {
+        "Content-Type": attachment.mime_type,
+        "Content-Length": String(bytes.length),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600"
+      }
+    });
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [ATTACHMENTS] Error downloading attachment:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to download attachment",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
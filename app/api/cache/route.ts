@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { getCacheBackend, getCacheStats } from "@/lib/cache-server";
+// Loads every tool module, so each tool's cache shows up even before its first use
+import "@/lib/tools";
+
+export async function GET(request: NextRequest) {
+  try {
+    await authenticateRequest(request);
+
+    return NextResponse.json({
+      success: true,
+      backend: getCacheBackend().name,
+      caches: getCacheStats()
+    });
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [CACHE] Error loading cache statistics:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load cache statistics",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { renameChat, normalizeChatTitle, MAX_CHAT_TITLE_LENGTH } from "@/lib/chat-title-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+
+interface RouteContext {
+  params: Promise<{ chatId: string }>;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Chat not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+/** Rename a chat: `{ "title": "..." }` */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateRequest(request);
+    const { chatId } = await params;
+
+    if (!isValidUUID(chatId)) {
+      return notFound();
+    }
+
+    const body = await request.json().catch(() => null);
+    const title = body?.title;
+
+    if (typeof title !== "string" || normalizeChatTitle(title) === "") {
+      return NextResponse.json(
+        { error: "Title is required and must be a non-empty string", code: "INVALID_TITLE" },
+        { status: 400 }
+      );
+    }
+
+    if (title.trim().length > MAX_CHAT_TITLE_LENGTH) {
+      return NextResponse.json(
+        { error: `Title must be at most ${MAX_CHAT_TITLE_LENGTH} characters`, code: "INVALID_TITLE" },
+        { status: 400 }
+      );
+    }
+
+    const chat = await renameChat(user.id, chatId, title);
+    if (!chat) {
+      return notFound();
+    }
+
+    return NextResponse.json({ success: true, chat });
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [CHAT] Error renaming chat:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to rename chat",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest } from "@/lib/auth-server";
 import { supabase } from "@/lib/supabase-server";
+import { MESSAGE_COLUMNS, activeBranch } from "@/lib/message-tree-server";
+import { withAttachments } from "@/lib/attachments-server";
+import { withFreshDocumentLinks } from "@/lib/document-library-server";
 
 export async function GET(request: NextRequest) {
   console.log("🔍 [CHAT HISTORY] Request received");
@@ -64,7 +67,7 @@ export async function GET(request: NextRequest) {
 
     const { data: chats, error: chatsError } = await supabase
       .from('chats')
-      .select('id, title, created_at, updated_at')
+      .select('id, title, use_documents, created_at, updated_at')
       .eq('user_id', userId)
       .order('updated_at', { ascending: false });
 
@@ -142,9 +145,9 @@ export async function GET(request: NextRequest) {
     const chatIds = chats.map(chat => chat.id);
     console.log("🔍 [CHAT HISTORY] Fetching messages for chat IDs:", chatIds);
 
-    const { data: messages, error: messagesError } = await supabase
+    const { data: allMessages, error: messagesError } = await (supabase as any)
       .from('messages')
-      .select('id, chat_id, role, content, created_at')
+      .select(MESSAGE_COLUMNS)
       .in('chat_id', chatIds)
       .order('created_at', { ascending: true });
 
@@ -165,14 +168,26 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Only each chat's active branch, with the files attached to user messages
+    const messages = await withAttachments(
+      userId,
+      withFreshDocumentLinks((chats as any[]).flatMap(chat => activeBranch((allMessages || []).filter((msg: any) => msg.chat_id === chat.id))))
+    );
+
+    // Grouped under their chat
+    const chatsWithMessages = (chats as any[]).map(chat => ({
+      ...chat,
+      messages: messages.filter(msg => msg.chat_id === chat.id)
+    }));
+
     console.log("✅ [CHAT HISTORY] Success - returning:", {
-      messagesCount: messages?.length || 0,
+      messagesCount: messages.length,
       chatsCount: chats.length
     });
 
     return NextResponse.json({
-      messages: messages || [],
-      chats: chats,
+      messages,
+      chats: chatsWithMessages,
       userId,
       source: "supabase"
     });
@@ -1,35 +1,120 @@
-// Allow streaming responses up to 30 seconds
-export const maxDuration = 30;
+// Tool rounds, page reads and follow-up suggestions can take a while
+export const maxDuration = 60;
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { authenticateRequest } from "@/lib/auth-server";
 import { supabase } from "@/lib/supabase-server";
-import { generateResponse, MODEL_NAME } from "@/lib/gemini-server";
-import { getWebResults, shouldTriggerWebSearch, formatSearchResults } from "@/lib/web-search-server";
-import { getWeatherData, shouldTriggerWeatherSearch, extractLocationFromMessage, formatWeatherResults } from "@/lib/weather-server";
+import { getLLMProvider } from "@/lib/llm-provider-server";
+import type { ChatTurn } from "@/lib/llm-provider-server";
+import { buildConversationHistory } from "@/lib/chat-context-server";
+import { getActiveLeafId, setFollowUps } from "@/lib/message-tree-server";
+import type { ReplyDetails } from "@/lib/message-tree-server";
+import { updateChatSummary } from "@/lib/chat-summary-server";
+import { DEFAULT_CHAT_TITLE, generateChatTitle } from "@/lib/chat-title-server";
+import { extractMemories } from "@/lib/user-memory-server";
+import { createChatStream } from "@/lib/chat-stream-server";
 import { generateUUID, isValidUUID } from "@/lib/uuid-utils";
+import { parseCoordinates } from "@/lib/weather-server";
+import { MAX_IMAGES_PER_MESSAGE, MAX_IMAGE_BYTES, parseJsonImages, prepareImages } from "@/lib/image-input-server";
+import { getUploadLimits, parseChatUpload, parseFormBody, processUploadedFiles, readLimitedBody } from "@/lib/file-upload-server";
+import type { ChatUpload } from "@/lib/file-upload-server";
+import { saveAttachments, toAttachmentSummary } from "@/lib/attachments-server";
+import type { AttachmentInput, AttachmentSummary } from "@/lib/attachments-server";
+
+// JSON bodies carry at most MAX_IMAGES_PER_MESSAGE images as base64, plus the message
+const MAX_JSON_BODY_BYTES = Math.ceil(MAX_IMAGES_PER_MESSAGE * MAX_IMAGE_BYTES * 4 / 3) + 1024 * 1024;
 
 export async function POST(request: NextRequest) {
   try {
-    // Parse request body
+    // Authenticate request before reading the body
+    const user = await authenticateRequest(request);
+    const userId = user.id;
+
+    // Parse request body: JSON, or form data when files are attached
     let body;
-    try {
-      body = await request.json();
-    } catch (jsonError) {
-      console.error("❌ [CHAT] JSON parsing error:", jsonError);
+    let upload: ChatUpload | undefined;
+    const contentType = request.headers.get("content-type") ?? "";
+    const isMultipart = contentType.includes("multipart/form-data");
+    // Refuse oversized bodies while reading them, before they are all in memory
+    const rawBody = await readLimitedBody(
+      request,
+      isMultipart ? getUploadLimits().maxTotalBytes + 1024 * 1024 : MAX_JSON_BODY_BYTES
+    );
+    if (!rawBody) {
       return NextResponse.json(
         {
-        error: "Invalid JSON in request body",
-        code: "INVALID_JSON" 
+          error: isMultipart ? "Attached files are too large" : "Request body is too large",
+          code: isMultipart ? "UPLOAD_TOO_LARGE" : "BODY_TOO_LARGE"
         },
-        { status: 400 }
+        { status: 413 }
       );
     }
 
-    const { message, chatId } = body;
+    if (isMultipart) {
+      let parsed;
+      try {
+        parsed = await parseChatUpload(await parseFormBody(rawBody, contentType));
+      } catch (formError) {
+        console.error("❌ [CHAT] Form data parsing error:", formError);
+        return NextResponse.json(
+          {
+            error: "Invalid form data in request body",
+            code: "INVALID_FORM_DATA"
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!parsed.upload) {
+        return NextResponse.json(
+          {
+            error: parsed.error,
+            code: "INVALID_UPLOAD"
+          },
+          { status: 400 }
+        );
+      }
+
+      upload = parsed.upload;
+      body = parseFormFields(upload.fields);
+    } else {
+      try {
+        body = JSON.parse(new TextDecoder().decode(rawBody));
+      } catch (jsonError) {
+        console.error("❌ [CHAT] JSON parsing error:", jsonError);
+        return NextResponse.json(
+          {
+          error: "Invalid JSON in request body",
+          code: "INVALID_JSON" 
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { chatId } = body;
+    // Browser geolocation, sent when the user shares their location from the composer
+    const userLocation = body.location == null ? undefined : parseCoordinates(body.location);
+    // Uploaded files: images for the model and text for the prompt
+    const files = await processUploadedFiles(upload?.files ?? []);
+    // Attached images as [{ name, mimeType, data }] (base64); a message may be just images or files
+    const jsonImages = body.images == null ? [] : parseJsonImages(body.images);
+    const rawImages = jsonImages && [...jsonImages, ...files.images];
+    const hasAttachments = !!rawImages?.length || files.fileContent !== "";
+    const message = body.message == null && hasAttachments ? "" : body.message;
+
+    if (rawImages === null) {
+      return NextResponse.json(
+        {
+          error: "images must be an array of { name, mimeType, data } with base64 data",
+          code: "INVALID_IMAGES"
+        },
+        { status: 400 }
+      );
+    }
 
     // Validate input
-    if (!message || typeof message !== "string" || message.trim() === "") {
+    if (typeof message !== "string" || (message.trim() === "" && !hasAttachments)) {
       console.log("❌ [CHAT] Invalid message:", message);
       return NextResponse.json(
         {
@@ -39,25 +124,58 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Authenticate request
-    const user = await authenticateRequest(request);
-    const userId = user.id;
+    // Answer from the user's document library; a chat keeps the choice for later messages
+    if (body.useDocuments != null && typeof body.useDocuments !== "boolean") {
+      return NextResponse.json(
+        {
+          error: "useDocuments must be a boolean",
+          code: "INVALID_USE_DOCUMENTS"
+        },
+        { status: 400 }
+      );
+    }
+
+    if (userLocation === null) {
+      return NextResponse.json(
+        {
+          error: "location must be { lat, lon } coordinates",
+          code: "INVALID_LOCATION"
+        },
+        { status: 400 }
+      );
+    }
+
+    // Resize and re-encode images for the model
+    const { images, error: imageError } = await prepareImages(rawImages);
+    if (imageError) {
+      return NextResponse.json(
+        {
+          error: imageError,
+          code: "INVALID_IMAGES"
+        },
+        { status: 400 }
+      );
+    }
 
     console.log("📨 [CHAT] Received chat request:", {
       userId,
       chatId,
-      messageLength: message?.length
+      messageLength: message?.length,
+      imageCount: images.length,
+      fileCount: upload?.files.length ?? 0
     });
 
-    // Get conversation context from Supabase
-    let conversationContext = "";
+    // Get conversation history from Supabase
+    let history: ChatTurn[] = [];
     let existingChat = null;
+    // The new message continues the chat's active branch
+    let parentId: string | null = null;
     
     try {
       if (chatId && isValidUUID(chatId)) {
         const { data: chatData, error: chatError } = await (supabase as any)
           .from('chats')
-          .select('id')
+          .select('id, title, summary, summarized_until, use_documents')
           .eq('id', chatId)
           .eq('user_id', userId)
           .single();
@@ -65,281 +183,286 @@ export async function POST(request: NextRequest) {
         if (chatData && !chatError) {
           existingChat = chatData as any;
 
-          // Get last 10 messages for context
-          const { data: messages, error: messagesError } = await (supabase as any)
-            .from('messages')
-            .select('role, content')
-            .eq('chat_id', (chatData as any).id)
-            .order('created_at', { ascending: true })
-            .limit(10);
-
-          if (messages && messages.length > 0) {
-            conversationContext = messages.map((msg: any) =>
-              `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`
-            ).join('\n');
-          }
+          // Running summary plus the most recent turns that fit in the token budget
+          parentId = await getActiveLeafId(chatData.id);
+          history = await buildConversationHistory(chatData as any, { leafId: parentId });
+          console.log("🧠 [CHAT] Loaded", history.length, "turns of context");
         }
       }
     } catch (contextError) {
       console.error("❌ [CHAT] Error getting conversation context:", contextError);
     }
 
-    // Check if we should trigger weather search FIRST
-    let weatherResults = null;
-    let weatherLocation = null;
-    let isWeatherQuery = false;
-
-    if (shouldTriggerWeatherSearch(message)) {
-      console.log('🌤️ [CHAT] Message contains weather keywords');
-      weatherLocation = extractLocationFromMessage(message);
-
-      if (weatherLocation) {
-        console.log('🌤️ [CHAT] Location detected:', weatherLocation);
-        weatherResults = await getWeatherData(weatherLocation);
-
-        if (weatherResults.success) {
-          console.log('✅ [CHAT] Weather data retrieved');
-          isWeatherQuery = true;
-        }
+    const useDocuments: boolean = body.useDocuments ?? !!existingChat?.use_documents;
+    if (existingChat && useDocuments !== !!existingChat.use_documents) {
+      const { error: optInError } = await (supabase as any)
+        .from('chats')
+        .update({ use_documents: useDocuments })
+        .eq('id', existingChat.id);
+      if (optInError) {
+        console.error("❌ [CHAT] Error saving document opt-in:", optInError);
       }
     }
 
-    // Check if we should trigger web search (only if not a weather query)
-    let webSearchResults = null;
-    let searchQuery = null;
-
-    if (!isWeatherQuery && shouldTriggerWebSearch(message)) {
-      console.log('🔍 [CHAT] Message contains search keywords, triggering web search');
-      searchQuery = message;
-      webSearchResults = await getWebResults(searchQuery);
+    // The files as they were sent, stored with the user message
+    const attachments: AttachmentInput[] = [
+      ...(jsonImages ?? []).map(image => ({ ...image, size: image.bytes.length })),
+      ...files.attachments
+    ];
 
-      if (webSearchResults.success && webSearchResults.results.length > 0) {
-        console.log('✅ [CHAT] Web search successful');
+    // Stream the reply; the exchange is saved once streaming ends
+    const result = await createChatStream({
+      userId,
+      message,
+      images,
+      fileContent: files.fileContent,
+      history,
+      userLocation,
+      useDocuments,
+      signal: request.signal,
+      save: (aiResponse, details) => saveExchange({ chatId, existingChat, parentId, userId, message, attachments, useDocuments, aiResponse, details }),
+      saveFollowUps: async (saved, followUps) => {
+        if (saved.assistantMessageId) {
+          await setFollowUps(saved.assistantMessageId, followUps);
+        }
       }
-    }
-
-    // Create enhanced prompt with context
-    let enhancedPrompt = message;
-    let hasExternalData = false;
-
-    // Add weather data if available
-    if (weatherResults && weatherResults.success) {
-      const weatherContext = `\n\nHere is the current weather data for ${weatherLocation}:\n${formatWeatherResults(weatherResults)}\n\nPlease use this live weather information to provide an accurate response.`;
-      enhancedPrompt = `User message: ${message}${weatherContext}`;
-      hasExternalData = true;
-    } else if (webSearchResults && webSearchResults.success && webSearchResults.results.length > 0) {
-      // Include web search results in the prompt
-      const searchContext = `\n\nHere are the latest web search results for "${searchQuery}":\n${formatSearchResults(webSearchResults)}\n\nPlease use this information to provide an accurate and up-to-date response.`;
-      enhancedPrompt = `User message: ${message}${searchContext}`;
-      hasExternalData = true;
-    } else if (conversationContext && !hasExternalData) {
-      enhancedPrompt = `Previous conversation context:\n${conversationContext}\n\nCurrent user message: ${message}\n\nPlease respond naturally, remembering the context of our conversation.`;
-    }
-
-    // Generate response using Gemini
-    const result = await generateResponse(enhancedPrompt);
+    });
 
     if (!result.success) {
-      console.error("❌ [CHAT] Gemini API error:", result.error);
       return NextResponse.json(
         {
           error: "Failed to generate response",
           details: result.error,
-          model: MODEL_NAME
+          model: getLLMProvider().model
         },
         { status: 502 }
       );
     }
 
-    const aiResponse = result.reply || "";
-    if (!aiResponse) {
-      throw new Error("Empty response from AI");
+    // Once the response has been sent, name a new chat, fold old turns into
+    // the chat summary and remember any new facts the user shared
+    after(async () => {
+      const { aiResponse, saved } = await result.finished;
+      if (saved && aiResponse && (!existingChat || existingChat.title === DEFAULT_CHAT_TITLE)) {
+        await generateChatTitle(saved.chatId, message, aiResponse);
+      }
+      if (saved) {
+        await updateChatSummary(saved.chatId);
+      }
+      if (aiResponse) {
+        await extractMemories(userId, message, aiResponse);
+      }
+    });
+
+    return result.response;
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
     }
-    console.log("✅ [CHAT] Generated response:", aiResponse.substring(0, 50) + "...");
 
-    // Store messages in Supabase
-    let savedChatId = chatId;
+    // Handle unexpected errors
+    console.error("❌ [CHAT] Unexpected error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to generate response",
+        details: error.message || "Unknown error",
+        model: getLLMProvider().model
+      },
+      { status: 500 }
+    );
+  }
+}
 
-    // Validate UUID format
-    if (savedChatId && !isValidUUID(savedChatId)) {
-      console.warn("⚠️ [CHAT SAVE] Invalid UUID format for chatId, generating new UUID");
-      savedChatId = generateUUID();
-    } else if (!savedChatId) {
-      savedChatId = generateUUID();
+/**
+ * Form fields as the JSON body would carry them: `location` is sent as a
+ * JSON string, `useDocuments` as "true" or "false", and empty fields count
+ * as missing.
+ */
+function parseFormFields(fields: Record<string, string>): Record<string, any> {
+  let location: unknown = undefined;
+  if (fields.location) {
+    try {
+      location = JSON.parse(fields.location);
+    } catch {
+      // parseCoordinates rejects the raw string
+      location = fields.location;
     }
+  }
+  return {
+    message: fields.message,
+    chatId: fields.chatId || undefined,
+    location,
+    useDocuments: fields.useDocuments ? fields.useDocuments === "true" : undefined
+  };
+}
 
-    console.log("🔍 [CHAT SAVE] Using chatId (UUID format):", savedChatId);
+/** IDs of the saved rows, sent to the client so it can act on the messages */
+interface SavedExchange {
+  chatId: string;
+  userMessageId: string;
+  assistantMessageId: string | null;
+  /** The user message's stored attachments, with download URLs */
+  attachments: AttachmentSummary[];
+}
 
-    try {
-      // Use existing chat or create new one
-      let chat = existingChat;
-
-      if (!chat) {
-        // Generate title from the first message
-        let chatTitle = "New Chat";
-        if (message) {
-          const messageText = message.trim()
-            .replace(/[^\w\s]/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim();
-
-          if (messageText.length <= 35) {
-            chatTitle = messageText;
-          } else {
-            const words = messageText.split(' ');
-            let titleWords: string[] = [];
-            let currentLength = 0;
-
-            for (const word of words) {
-              if (currentLength + word.length + 1 <= 35) {
-                titleWords.push(word);
-                currentLength += word.length + 1;
-              } else {
-                break;
-              }
-            }
-
-            chatTitle = titleWords.join(' ');
-            if (titleWords.length < words.length) {
-              chatTitle += '...';
-            }
-          }
-        }
+interface SaveExchangeParams {
+  chatId: string | undefined;
+  existingChat: any;
+  parentId: string | null;
+  userId: string;
+  message: string;
+  attachments: AttachmentInput[];
+  useDocuments: boolean;
+  aiResponse: string;
+  details: ReplyDetails;
+}
 
-        console.log("🔍 [CHAT SAVE] Creating new chat:", {
-          id: savedChatId,
-          userId: userId,
-          title: chatTitle
-        });
+/**
+ * Store the user message and AI response in Supabase, creating the chat if needed.
+ * Errors are logged and swallowed so a failed save never breaks the response.
+ * Returns the saved row IDs, or null if saving failed.
+ */
+async function saveExchange({ chatId, existingChat, parentId, userId, message, attachments, useDocuments, aiResponse, details }: SaveExchangeParams): Promise<SavedExchange | null> {
+  // Store messages in Supabase
+  let savedChatId = chatId;
+
+  // Validate UUID format
+  if (savedChatId && !isValidUUID(savedChatId)) {
+    console.warn("⚠️ [CHAT SAVE] Invalid UUID format for chatId, generating new UUID");
+    savedChatId = generateUUID();
+  } else if (!savedChatId) {
+    savedChatId = generateUUID();
+  }
 
-        const { data: newChat, error: createError } = await (supabase as any)
-          .from('chats')
-          .insert({
-            id: savedChatId,
-            user_id: userId,
-            title: chatTitle
-          })
-          .select()
-          .single();
+  console.log("🔍 [CHAT SAVE] Using chatId (UUID format):", savedChatId);
 
-        if (createError) {
-          console.error("❌ [CHAT SAVE] Error creating chat:", {
-            message: createError.message,
-            code: createError.code,
-            details: createError.details
-          });
-          throw createError;
-        }
+  try {
+    // Use existing chat or create new one
+    let chat = existingChat;
 
-        if (!newChat) {
-          throw new Error("Chat creation returned no data");
-        }
+    if (!chat) {
+      // Named by generateChatTitle once the first exchange is saved
+      const chatTitle = DEFAULT_CHAT_TITLE;
 
-        chat = newChat as any;
-        savedChatId = (newChat as any).id;
-        console.log("✅ [CHAT SAVE] Created new chat with ID:", savedChatId);
-      }
+      console.log("🔍 [CHAT SAVE] Creating new chat:", {
+        id: savedChatId,
+        userId: userId,
+        title: chatTitle
+      });
 
-      // Insert user message
-      console.log("🔍 [CHAT SAVE] Inserting user message");
-      if (!chat) {
-        throw new Error("Chat is null");
-      }
-      const { error: userMsgError } = await (supabase as any)
-        .from('messages')
+      const { data: newChat, error: createError } = await (supabase as any)
+        .from('chats')
         .insert({
-          chat_id: chat.id,
-          role: 'user',
-          content: message
+          id: savedChatId,
+          user_id: userId,
+          title: chatTitle,
+          use_documents: useDocuments
+        })
+        .select()
+        .single();
+
+      if (createError) {
+        console.error("❌ [CHAT SAVE] Error creating chat:", {
+          message: createError.message,
+          code: createError.code,
+          details: createError.details
         });
+        throw createError;
+      }
 
-      if (userMsgError) {
-        console.error("❌ [CHAT SAVE] Error inserting user message:", userMsgError);
-        throw userMsgError;
+      if (!newChat) {
+        throw new Error("Chat creation returned no data");
       }
 
-      console.log("✅ [CHAT SAVE] User message inserted");
+      chat = newChat as any;
+      savedChatId = (newChat as any).id;
+      console.log("✅ [CHAT SAVE] Created new chat with ID:", savedChatId);
+    }
+
+    // Insert user message
+    console.log("🔍 [CHAT SAVE] Inserting user message");
+    if (!chat) {
+      throw new Error("Chat is null");
+    }
+    const { data: userMsg, error: userMsgError } = await (supabase as any)
+      .from('messages')
+      .insert({
+        chat_id: chat.id,
+        role: 'user',
+        content: message,
+        parent_id: parentId
+      })
+      .select('id')
+      .single();
+
+    if (userMsgError) {
+      console.error("❌ [CHAT SAVE] Error inserting user message:", userMsgError);
+      throw userMsgError;
+    }
+
+    console.log("✅ [CHAT SAVE] User message inserted");
+
+    // Store attached files; the exchange is kept even if this fails
+    let savedAttachments: AttachmentSummary[] = [];
+    try {
+      savedAttachments = (await saveAttachments(userId, userMsg.id, attachments)).map(toAttachmentSummary);
+    } catch (attachmentError: any) {
+      console.error("❌ [CHAT SAVE] Error saving attachments:", attachmentError.message || attachmentError);
+    }
 
-      // Insert AI response
+    // Insert AI response (skipped when the stream produced nothing)
+    let assistantMessageId: string | null = null;
+    if (aiResponse) {
       console.log("🔍 [CHAT SAVE] Inserting AI message");
-      if (!chat) {
-        throw new Error("Chat is null");
-      }
-      const { error: aiMsgError } = await (supabase as any)
+      const { data: aiMsg, error: aiMsgError } = await (supabase as any)
         .from('messages')
         .insert({
           chat_id: chat.id,
           role: 'assistant',
-          content: aiResponse
-        });
+          content: aiResponse,
+          parent_id: userMsg.id,
+          status: details.status,
+          sources: details.sources
+        })
+        .select('id')
+        .single();
 
       if (aiMsgError) {
         console.error("❌ [CHAT SAVE] Error inserting AI message:", aiMsgError);
         throw aiMsgError;
       }
 
+      assistantMessageId = aiMsg.id;
       console.log("✅ [CHAT SAVE] AI message inserted");
-
-      // Update chat updated_at timestamp
-      if (!chat) {
-        throw new Error("Chat is null");
-      }
-      await (supabase as any)
-        .from('chats')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', chat.id);
-
-      console.log("✅ [CHAT SAVE] All messages saved to Supabase");
-
-    } catch (dbError: any) {
-      console.error("❌ [CHAT SAVE] Database error saving messages:", {
-        message: dbError.message,
-        code: dbError.code,
-        details: dbError.details
-      });
-      // Continue to return response even if save fails
     }
 
-    // Return response (streaming format for AI SDK)
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      start(controller) {
-        const data = `0:${JSON.stringify(aiResponse)}\n`;
-        controller.enqueue(encoder.encode(data));
-        controller.close();
-      }
-    });
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
-
-  } catch (error: any) {
-    // Handle authentication errors
-    if (error.status) {
-      return NextResponse.json(
-        {
-          error: error.error,
-          code: error.code,
-          details: error.details
-        },
-        { status: error.status }
-      );
+    // Update chat updated_at timestamp
+    if (!chat) {
+      throw new Error("Chat is null");
     }
-
-    // Handle unexpected errors
-    console.error("❌ [CHAT] Unexpected error:", error);
-    return NextResponse.json(
-      {
-        error: "Failed to generate response",
-        details: error.message || "Unknown error",
-        model: MODEL_NAME
-      },
-      { status: 500 }
-    );
+    await (supabase as any)
+      .from('chats')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', chat.id);
+
+    console.log("✅ [CHAT SAVE] All messages saved to Supabase");
+    return { chatId: chat.id, userMessageId: userMsg.id, assistantMessageId, attachments: savedAttachments };
+
+  } catch (dbError: any) {
+    console.error("❌ [CHAT SAVE] Database error saving messages:", {
+      message: dbError.message,
+      code: dbError.code,
+      details: dbError.details
+    });
+    // Continue to return response even if save fails
+    return null;
   }
 }
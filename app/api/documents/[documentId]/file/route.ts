@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { getStorageBackend, verifyDownloadSignature } from "@/lib/attachments-server";
+import { getDocument } from "@/lib/document-library-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+
+interface RouteContext {
+  params: Promise<{ documentId: string }>;
+}
+
+// Opened in the browser (PDFs at the cited page); anything else is downloaded
+const INLINE_TYPES = ["application/pdf", "text/plain"];
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Document not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+/**
+ * Download a library document's original file. Works with the signed URL
+ * from the document list or a citation, or with the owner's Authorization header.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { documentId } = await params;
+
+    if (!isValidUUID(documentId)) {
+      return notFound();
+    }
+
+    const query = request.nextUrl.searchParams;
+    const signed = verifyDownloadSignature(`/api/documents/${documentId}/file`, query.get("expires"), query.get("signature"));
+    const userId = signed ? undefined : (await authenticateRequest(request)).id;
+
+    const document = await getDocument(documentId, userId);
+    if (!document) {
+      return notFound();
+    }
+
+    const bytes = await getStorageBackend().get(document.storage_key);
+    if (!bytes) {
+      console.error("❌ [DOCUMENTS] Stored file is missing:", document.storage_key);
+      return notFound();
+    }
+
+    const disposition = INLINE_TYPES.includes(document.mime_type) ? "inline" : "attachment";
+    return new Response(new Uint8Array(bytes), {
+      headers: {
+        "Content-Type": document.mime_type,
+        "Content-Length": String(bytes.length),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(document.name)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600"
+      }
+    });
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [DOCUMENTS] Error downloading document:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to download document",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { deleteDocument } from "@/lib/document-library-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+
+interface RouteContext {
+  params: Promise<{ documentId: string }>;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Document not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+/** Remove a document from the library, with its chunks and file */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateRequest(request);
+    const { documentId } = await params;
+
+    if (!isValidUUID(documentId)) {
+      return notFound();
+    }
+
+    if (!await deleteDocument(user.id, documentId)) {
+      return notFound();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [DOCUMENTS] Error deleting document:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete document",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
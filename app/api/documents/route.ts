@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { addDocument, listDocuments, toDocumentSummary } from "@/lib/document-library-server";
+import { getUploadLimits, parseChatUpload, parseFormBody, readLimitedBody } from "@/lib/file-upload-server";
+
+// Extracting and embedding a long document takes a while
+export const maxDuration = 60;
+
+function handleError(error: any, action: string) {
+  // Handle authentication errors
+  if (error.status) {
+    return NextResponse.json(
+      {
+        error: error.error,
+        code: error.code,
+        details: error.details
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`❌ [DOCUMENTS] Error ${action}:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      details: error.message || "Unknown error"
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    const documents = await listDocuments(user.id);
+
+    return NextResponse.json({ success: true, documents: documents.map(toDocumentSummary) });
+  } catch (error: any) {
+    return handleError(error, "load documents");
+  }
+}
+
+/**
+ * Add documents to the library: `multipart/form-data` with the files in
+ * `files`, under the same limits as chat uploads. Returns the added
+ * documents and, per file that could not be indexed, an error.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+
+    // Refuse oversized uploads while reading them, before they are all in memory
+    const rawBody = await readLimitedBody(request, getUploadLimits().maxTotalBytes + 1024 * 1024);
+    if (!rawBody) {
+      return NextResponse.json(
+        { error: "Uploaded files are too large", code: "UPLOAD_TOO_LARGE" },
+        { status: 413 }
+      );
+    }
+
+    let parsed;
+    try {
+      parsed = await parseChatUpload(await parseFormBody(rawBody, request.headers.get("content-type") ?? ""));
+    } catch (formError) {
+      console.error("❌ [DOCUMENTS] Form data parsing error:", formError);
+      return NextResponse.json(
+        { error: "Invalid form data in request body", code: "INVALID_FORM_DATA" },
+        { status: 400 }
+      );
+    }
+
+    if (!parsed.upload || parsed.upload.files.length === 0) {
+      return NextResponse.json(
+        { error: parsed.error || "Attach at least one file as \"files\"", code: "INVALID_UPLOAD" },
+        { status: 400 }
+      );
+    }
+
+    const documents = [];
+    const errors: { name: string; error: string }[] = [];
+    for (const file of parsed.upload.files) {
+      const added = await addDocument(user.id, file);
+      if (added.document) {
+        documents.push(toDocumentSummary(added.document));
+      } else {
+        errors.push({ name: file.name, error: added.error || "Could not be indexed" });
+      }
+    }
+
+    if (documents.length === 0) {
+      return NextResponse.json(
+        { error: errors[0].error, code: "DOCUMENT_NOT_INDEXED", errors },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, documents, errors }, { status: 201 });
+  } catch (error: any) {
+    return handleError(error, "add documents");
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { updateMemory, deleteMemories, MAX_MEMORY_LENGTH } from "@/lib/user-memory-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+
+interface RouteContext {
+  params: Promise<{ memoryId: string }>;
+}
+
+function handleError(error: any, action: string) {
+  // Handle authentication errors
+  if (error.status) {
+    return NextResponse.json(
+      {
+        error: error.error,
+        code: error.code,
+        details: error.details
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`❌ [MEMORY] Error ${action}:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      details: error.message || "Unknown error"
+    },
+    { status: 500 }
+  );
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Memory not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateRequest(request);
+    const { memoryId } = await params;
+
+    if (!isValidUUID(memoryId)) {
+      return notFound();
+    }
+
+    const body = await request.json().catch(() => null);
+    const content = body?.content;
+
+    if (!content || typeof content !== "string" || content.trim() === "") {
+      return NextResponse.json(
+        { error: "Content is required and must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_MEMORY_LENGTH) {
+      return NextResponse.json(
+        { error: `Content must be at most ${MAX_MEMORY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const memory = await updateMemory(user.id, memoryId, content);
+    if (!memory) {
+      return notFound();
+    }
+
+    return NextResponse.json({ success: true, memory });
+  } catch (error: any) {
+    return handleError(error, "update memory");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateRequest(request);
+    const { memoryId } = await params;
+
+    if (!isValidUUID(memoryId)) {
+      return notFound();
+    }
+
+    const deleted = await deleteMemories(user.id, memoryId);
+    if (deleted === 0) {
+      return notFound();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return handleError(error, "delete memory");
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { listMemories, createMemory, deleteMemories, MAX_MEMORY_LENGTH } from "@/lib/user-memory-server";
+
+function handleError(error: any, action: string) {
+  // Handle authentication errors
+  if (error.status) {
+    return NextResponse.json(
+      {
+        error: error.error,
+        code: error.code,
+        details: error.details
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error.code === '42P01') {
+    return NextResponse.json(
+      {
+        error: "Database table 'user_memories' does not exist",
+        code: "TABLE_NOT_FOUND",
+        details: "Please run the Supabase schema migration (supabase-schema.sql)"
+      },
+      { status: 503 }
+    );
+  }
+
+  console.error(`❌ [MEMORY] Error ${action}:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      details: error.message || "Unknown error"
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    const memories = await listMemories(user.id);
+
+    return NextResponse.json({ success: true, memories });
+  } catch (error: any) {
+    return handleError(error, "list memories");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+
+    const body = await request.json().catch(() => null);
+    const content = body?.content;
+
+    if (!content || typeof content !== "string" || content.trim() === "") {
+      return NextResponse.json(
+        { error: "Content is required and must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_MEMORY_LENGTH) {
+      return NextResponse.json(
+        { error: `Content must be at most ${MAX_MEMORY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const memory = await createMemory(user.id, content);
+    return NextResponse.json({ success: true, memory }, { status: 201 });
+  } catch (error: any) {
+    return handleError(error, "create memory");
+  }
+}
+
+/**
+ * Forget everything: deletes all of the user's memories
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    const deleted = await deleteMemories(user.id);
+
+    return NextResponse.json({ success: true, deleted });
+  } catch (error: any) {
+    return handleError(error, "delete memories");
+  }
+}
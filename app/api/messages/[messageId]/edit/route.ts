@@ -0,0 +1,136 @@
+// Tool rounds, page reads and follow-up suggestions can take a while
+export const maxDuration = 60;
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { getLLMProvider } from "@/lib/llm-provider-server";
+import { buildConversationHistory } from "@/lib/chat-context-server";
+import { createChatStream } from "@/lib/chat-stream-server";
+import { addReply, addSibling, getOwnedMessage, listSiblingIds, setFollowUps } from "@/lib/message-tree-server";
+import { copyAttachments, loadAttachments, replayAttachments, toAttachmentSummary } from "@/lib/attachments-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+import { parseCoordinates } from "@/lib/weather-server";
+
+interface RouteContext {
+  params: Promise<{ messageId: string }>;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Message not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+/**
+ * Edit a user message: `{ "content": "..." }` stores the edited text as a
+ * sibling of the original, switches to that new branch and streams a reply
+ * to it. The original message and everything after it stay available on
+ * their own branch. An optional `location` ({ lat, lon }) works as in
+ * /api/chat. The edited message keeps the original's attachments. The `2:`
+ * frame carries `userMessageId`, `assistantMessageId`, the user message's
+ * `siblingIds` and its `attachments`; if generation fails to start, the 502
+ * response carries the same under `saved`, as the edit is kept.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateRequest(request);
+    const { messageId } = await params;
+
+    if (!isValidUUID(messageId)) {
+      return notFound();
+    }
+
+    const body = await request.json().catch(() => null);
+    const content = body?.content;
+
+    if (!content || typeof content !== "string" || content.trim() === "") {
+      return NextResponse.json(
+        { error: "Content is required and must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const owned = await getOwnedMessage(user.id, messageId);
+    if (!owned || owned.message.role !== 'user') {
+      return notFound();
+    }
+
+    console.log("✏️ [EDIT] Forking chat from edited message:", { userId: user.id, messageId });
+
+    // The edited message becomes the active branch right away, even if generation fails
+    const edited = await addSibling(owned.chat, owned.message, content);
+    const siblingIds = await listSiblingIds(edited);
+    const history = await buildConversationHistory(owned.chat, { leafId: edited.parent_id });
+    const attachments = await copyAttachments(await loadAttachments(owned.message.id), edited.id);
+    const { images, fileContent } = await replayAttachments(attachments);
+    const savedEdit = (assistantMessageId: string | null) => ({
+      userMessageId: edited.id,
+      assistantMessageId,
+      siblingIds,
+      attachments: attachments.map(toAttachmentSummary)
+    });
+
+    const result = await createChatStream({
+      userId: user.id,
+      message: content,
+      images,
+      fileContent,
+      history,
+      userLocation: parseCoordinates(body.location) ?? undefined,
+      useDocuments: !!owned.chat.use_documents,
+      signal: request.signal,
+      save: async (aiResponse, details) => {
+        let assistantMessageId: string | null = null;
+        if (aiResponse) {
+          try {
+            assistantMessageId = (await addReply(edited, aiResponse, details)).id;
+          } catch (dbError: any) {
+            console.error("❌ [EDIT] Database error saving reply:", dbError);
+          }
+        }
+        return savedEdit(assistantMessageId);
+      },
+      saveFollowUps: async (saved, followUps) => {
+        if (saved.assistantMessageId) {
+          await setFollowUps(saved.assistantMessageId, followUps);
+        }
+      }
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: "Failed to generate response",
+          details: result.error,
+          model: getLLMProvider().model,
+          saved: savedEdit(null)
+        },
+        { status: 502 }
+      );
+    }
+
+    return result.response;
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [EDIT] Unexpected error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to edit message",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+// Tool rounds, page reads and follow-up suggestions can take a while
+export const maxDuration = 60;
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { getLLMProvider } from "@/lib/llm-provider-server";
+import { buildConversationHistory } from "@/lib/chat-context-server";
+import { createChatStream } from "@/lib/chat-stream-server";
+import { addSibling, getMessage, getOwnedMessage, listSiblingIds, setFollowUps, summaryCovers } from "@/lib/message-tree-server";
+import { loadAttachments, replayAttachments } from "@/lib/attachments-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+import { parseCoordinates } from "@/lib/weather-server";
+
+interface RouteContext {
+  params: Promise<{ messageId: string }>;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Message not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+/**
+ * Generate a new variant of an assistant reply for the same user message.
+ * The variant is stored as a sibling of the reply and becomes the active
+ * branch. Streams in the same format as /api/chat; the `2:` frame carries
+ * the new message ID and the IDs of all its siblings. Files attached to the
+ * user message are given to the model again. The optional JSON body
+ * may carry a `location` ({ lat, lon }) as in /api/chat.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateRequest(request);
+    const { messageId } = await params;
+
+    if (!isValidUUID(messageId)) {
+      return notFound();
+    }
+
+    const body = await request.json().catch(() => null);
+    const owned = await getOwnedMessage(user.id, messageId);
+    if (!owned || owned.message.role !== 'assistant') {
+      return notFound();
+    }
+
+    const prompt = await getMessage(owned.message.parent_id);
+    if (!prompt || prompt.role !== 'user') {
+      return NextResponse.json(
+        { error: "No user message found for this reply", code: "NO_PROMPT" },
+        { status: 409 }
+      );
+    }
+
+    console.log("🔁 [REGENERATE] Regenerating reply:", { userId: user.id, messageId });
+
+    // Same context the original reply had: the branch up to the prompt. A summary
+    // covering the prompt describes the replies after it, so it is left out
+    // here and reset once the variant is saved (see addSibling)
+    const context = summaryCovers(owned.chat, prompt)
+      ? { ...owned.chat, summary: null, summarized_until: null }
+      : owned.chat;
+    const history = await buildConversationHistory(context, { leafId: prompt.parent_id });
+    // and the files that were attached to it
+    const { images, fileContent } = await replayAttachments(await loadAttachments(prompt.id));
+
+    const result = await createChatStream({
+      userId: user.id,
+      message: prompt.content,
+      images,
+      fileContent,
+      history,
+      userLocation: parseCoordinates(body?.location) ?? undefined,
+      useDocuments: !!owned.chat.use_documents,
+      signal: request.signal,
+      save: async (aiResponse, details) => {
+        if (!aiResponse) {
+          return null;
+        }
+        try {
+          const variant = await addSibling(owned.chat, owned.message, aiResponse, details);
+          return { messageId: variant.id, siblingIds: await listSiblingIds(variant) };
+        } catch (dbError: any) {
+          console.error("❌ [REGENERATE] Database error saving variant:", dbError);
+          return null;
+        }
+      },
+      saveFollowUps: (saved, followUps) => setFollowUps(saved.messageId, followUps)
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: "Failed to generate response",
+          details: result.error,
+          model: getLLMProvider().model
+        },
+        { status: 502 }
+      );
+    }
+
+    return result.response;
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [REGENERATE] Unexpected error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to regenerate response",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
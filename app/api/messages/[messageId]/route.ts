@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { activateMessage, getOwnedMessage } from "@/lib/message-tree-server";
+import { withAttachments } from "@/lib/attachments-server";
+import { withFreshDocumentLinks } from "@/lib/document-library-server";
+import { isValidUUID } from "@/lib/uuid-utils";
+
+interface RouteContext {
+  params: Promise<{ messageId: string }>;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Message not found", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+}
+
+/**
+ * Switch branches: `{ "isActive": true }` makes this message (a reply variant
+ * or an edited user message) the active one among its siblings.
+ * Returns the chat's new active branch.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateRequest(request);
+    const { messageId } = await params;
+
+    if (!isValidUUID(messageId)) {
+      return notFound();
+    }
+
+    const body = await request.json().catch(() => null);
+    if (body?.isActive !== true) {
+      return NextResponse.json(
+        { error: "isActive must be true", code: "INVALID_UPDATE" },
+        { status: 400 }
+      );
+    }
+
+    const owned = await getOwnedMessage(user.id, messageId);
+    if (!owned) {
+      return notFound();
+    }
+
+    const messages = await withAttachments(user.id, withFreshDocumentLinks(await activateMessage(owned.chat, owned.message)));
+    return NextResponse.json({ success: true, messages });
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [MESSAGES] Error updating message:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update message",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { getUserSettings, saveUserSettings, validateSettingsUpdate } from "@/lib/user-settings-server";
+import { listToolInfo } from "@/lib/tools";
+
+function handleError(error: any, action: string) {
+  // Handle authentication errors
+  if (error.status) {
+    return NextResponse.json(
+      {
+        error: error.error,
+        code: error.code,
+        details: error.details
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error.code === '42P01') {
+    return NextResponse.json(
+      {
+        error: "Database table 'user_settings' does not exist",
+        code: "TABLE_NOT_FOUND",
+        details: "Please run the Supabase schema migration (supabase-schema.sql)"
+      },
+      { status: 503 }
+    );
+  }
+
+  console.error(`❌ [SETTINGS] Error ${action}:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      details: error.message || "Unknown error"
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    const settings = await getUserSettings(user.id);
+
+    // Tools the user can switch on and off
+    return NextResponse.json({ success: true, settings, tools: listToolInfo() });
+  } catch (error: any) {
+    return handleError(error, "load settings");
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+
+    const body = await request.json().catch(() => null);
+    const { update, error } = validateSettingsUpdate(body);
+
+    if (!update) {
+      return NextResponse.json(
+        { error, code: "INVALID_SETTINGS" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await saveUserSettings(user.id, update);
+    console.log("✅ [SETTINGS] Saved settings for user:", user.id);
+
+    return NextResponse.json({ success: true, settings });
+  } catch (error: any) {
+    return handleError(error, "save settings");
+  }
+}
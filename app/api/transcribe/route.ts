@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth-server";
+import { getLLMProvider } from "@/lib/llm-provider-server";
+import { parseFormBody, readLimitedBody } from "@/lib/file-upload-server";
+import { getTranscriptionMaxBytes, parseAudioUpload, transcribeAudio } from "@/lib/transcription-server";
+
+// Transcribing a long recording takes a while
+export const maxDuration = 60;
+
+/**
+ * Transcribe a voice recording: `multipart/form-data` with the recording in
+ * `audio` and optionally the spoken `language` (e.g. "en-US"). Returns the
+ * transcript as `text`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+
+    // Refuse oversized recordings while reading them, before they are all in memory
+    const rawBody = await readLimitedBody(request, getTranscriptionMaxBytes() + 1024 * 1024);
+    if (!rawBody) {
+      return NextResponse.json(
+        { error: "The recording is too large", code: "UPLOAD_TOO_LARGE" },
+        { status: 413 }
+      );
+    }
+
+    let parsed;
+    try {
+      parsed = await parseAudioUpload(await parseFormBody(rawBody, request.headers.get("content-type") ?? ""));
+    } catch (formError) {
+      console.error("❌ [TRANSCRIBE] Form data parsing error:", formError);
+      return NextResponse.json(
+        { error: "Invalid form data in request body", code: "INVALID_FORM_DATA" },
+        { status: 400 }
+      );
+    }
+
+    if (!parsed.audio) {
+      return NextResponse.json(
+        { error: parsed.error, code: "INVALID_AUDIO" },
+        { status: 400 }
+      );
+    }
+
+    console.log("🎙️ [TRANSCRIBE] Recording from user:", user.id);
+    const result = await transcribeAudio(parsed.audio, parsed.language, request.signal);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: "Failed to transcribe audio",
+          details: result.error,
+          model: getLLMProvider().model
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, text: result.text || "" });
+  } catch (error: any) {
+    // Handle authentication errors
+    if (error.status) {
+      return NextResponse.json(
+        {
+          error: error.error,
+          code: error.code,
+          details: error.details
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [TRANSCRIBE] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to transcribe audio",
+        details: error.message || "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,11 @@
 "use client"
 
-import React, { useState, useEffect } from "react"
+import React, { useState, useEffect, useRef } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
+import { Input } from "@/components/ui/input"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { 
   Plus, 
@@ -14,6 +15,7 @@ import {
   X,
   Menu,
   Trash2,
+  Pencil,
   LogOut
 } from "lucide-react"
 import { cn } from "@/lib/utils"
@@ -30,6 +32,8 @@ interface ChatSidebarProps {
   onNewChat: () => void
   onSelectChat: (chatId: string) => void
   currentChatId?: string
+  /** Changing this reloads the chat list, e.g. once a new chat has been named */
+  refreshKey?: number
 }
 
 interface ChatItem {
@@ -45,13 +49,19 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
   onToggle,
   onNewChat,
   onSelectChat,
-  currentChatId
+  currentChatId,
+  refreshKey
 }) => {
   const { user, logout } = useAuth()
   const { messages: historyMessages, chats: historyChats, isLoading: isLoadingHistory, error: historyError, fetchChatHistory, retryFetchChatHistory } = useChatHistory()
   const [chatHistory, setChatHistory] = useState<ChatItem[]>([])
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [forceStopLoading, setForceStopLoading] = useState(false)
+  // Chat being renamed inline and the title typed so far
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null)
+  const [renameDraft, setRenameDraft] = useState("")
+  // Enter and blur can both end a rename; only the first one counts
+  const renamingChatIdRef = useRef<string | null>(null)
 
   // Delete chat function
   const handleDeleteChat = async (chatId: string) => {
@@ -87,6 +97,63 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     }
   }
 
+  const startRename = (chat: ChatItem) => {
+    renamingChatIdRef.current = chat.id
+    setRenamingChatId(chat.id)
+    setRenameDraft(chat.title)
+  }
+
+  const cancelRename = () => {
+    renamingChatIdRef.current = null
+    setRenamingChatId(null)
+    setRenameDraft("")
+  }
+
+  // Rename chat function (shows the new title right away, reverts if saving fails)
+  const handleRenameChat = async (chatId: string) => {
+    if (renamingChatIdRef.current !== chatId) {
+      return
+    }
+    const title = renameDraft.trim()
+    const previous = chatHistory.find(chat => chat.id === chatId)
+    cancelRename()
+
+    if (!previous || !title || title === previous.title) {
+      return
+    }
+
+    const setTitle = (newTitle: string) => setChatHistory(prev =>
+      prev.map(chat => chat.id === chatId ? { ...chat, title: newTitle } : chat)
+    )
+    setTitle(title)
+
+    try {
+      const token = localStorage.getItem('authToken')
+      if (!token) {
+        throw new Error("Please log in to rename chats")
+      }
+
+      const response = await fetch(getApiUrl(`/api/chat/${chatId}`), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ title })
+      })
+
+      const data = await response.json().catch(() => ({ error: 'Unknown error' }))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rename chat")
+      }
+      setTitle(data.chat.title)
+    } catch (error: any) {
+      console.error("Error renaming chat:", error)
+      setTitle(previous.title)
+      toast.error(error.message || "Failed to rename chat")
+    }
+  }
+
   // Auto-load chat history when component mounts
   useEffect(() => {
     fetchChatHistory()
@@ -104,6 +171,13 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     return () => clearTimeout(timeout)
   }, []) // Empty dependency array to run only once on mount
 
+  // Reload when the chat UI reports a change (skipped on mount, handled above)
+  useEffect(() => {
+    if (refreshKey) {
+      fetchChatHistory()
+    }
+  }, [refreshKey])
+
   // Generate chat history from chats
   useEffect(() => {
     console.log('📊 Processing chat history:', { 
@@ -120,54 +194,11 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
         // Convert chats to chat items for display
         const chatItems: ChatItem[] = historyChats.map(chat => {
           const lastMessage = chat.messages?.[chat.messages.length - 1]
-          const firstUserMessage = chat.messages?.find(msg => msg.sender === 'user')
-          
-          // Generate title from first user message or use chat title
-          let title = 'New Chat'
-          
-          // Always try to generate a title from the first user message
-          if (firstUserMessage) {
-            const messageText = firstUserMessage.text.trim()
-            
-            // Clean up the message text for title
-            let cleanText = messageText
-              .replace(/[^\w\s]/g, ' ') // Remove special characters
-              .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-              .trim()
-            
-            // Create a more readable title
-            if (cleanText.length <= 35) {
-              title = cleanText
-            } else {
-              // Try to break at word boundaries
-              const words = cleanText.split(' ')
-              let titleWords = []
-              let currentLength = 0
-              
-              for (const word of words) {
-                if (currentLength + word.length + 1 <= 35) {
-                  titleWords.push(word)
-                  currentLength += word.length + 1
-                } else {
-                  break
-                }
-              }
-              
-              title = titleWords.join(' ')
-              if (titleWords.length < words.length) {
-                title += '...'
-              }
-            }
-          }
-          
-          // Use custom title if it exists and is not "New Chat"
-          if (chat.title && chat.title !== 'New Chat') {
-            title = chat.title
-          }
-          
+
           return {
             id: chat.chatId,
-            title: title,
+            // Named by the server after the first exchange, or renamed by the user
+            title: chat.title || 'New Chat',
             lastMessage: lastMessage ? lastMessage.text.substring(0, 100) + (lastMessage.text.length > 100 ? '...' : '') : 'No messages yet',
             timestamp: new Date(chat.updatedAt || chat.createdAt),
             messageCount: chat.messages?.length || 0
@@ -324,7 +355,7 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
           <ScrollArea className="flex-1 px-2">
             <div className="space-y-0.5 pb-4">
 
-              {isLoadingHistory && !forceStopLoading ? (
+              {isLoadingHistory && !forceStopLoading && chatHistory.length === 0 ? (
                 // Loading skeleton placeholders with timeout
                 <div className="space-y-1">
                   {Array.from({ length: 3 }).map((_, index) => (
@@ -382,13 +413,39 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
                         ? "rovoxa-bg-glass-soft border-border-glass" 
                         : "hover:rovoxa-bg-glass-soft"
                     )}
-                    onClick={() => onSelectChat(chat.id)}
+                    onClick={() => {
+                      if (renamingChatId !== chat.id) {
+                        onSelectChat(chat.id)
+                      }
+                    }}
                   >
                     <div className="flex items-center justify-between gap-2">
                       <div className="flex-1 min-w-0">
-                        <h3 className="text-sm font-medium rovoxa-text-primary leading-tight break-words">
-                          {chat.title}
-                        </h3>
+                        {renamingChatId === chat.id ? (
+                          <Input
+                            autoFocus
+                            value={renameDraft}
+                            maxLength={80}
+                            aria-label="Chat title"
+                            onChange={(e) => setRenameDraft(e.target.value)}
+                            onClick={(e) => e.stopPropagation()}
+                            onFocus={(e) => e.target.select()}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault()
+                                handleRenameChat(chat.id)
+                              } else if (e.key === 'Escape') {
+                                cancelRename()
+                              }
+                            }}
+                            onBlur={() => handleRenameChat(chat.id)}
+                            className="h-7 text-sm px-2"
+                          />
+                        ) : (
+                          <h3 className="text-sm font-medium rovoxa-text-primary leading-tight break-words">
+                            {chat.title}
+                          </h3>
+                        )}
                         <div className="mt-1">
                           <span className="text-xs rovoxa-text-secondary">
                             {formatTimestamp(chat.timestamp)}
@@ -409,7 +466,21 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
                             <MoreHorizontal className="h-3 w-3" />
                           </Button>
                         </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end" className="w-48">
+                        <DropdownMenuContent
+                          align="end"
+                          className="w-48"
+                          // Keep focus in the rename field instead of returning it to the menu button
+                          onCloseAutoFocus={(e) => e.preventDefault()}
+                        >
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              startRename(chat)
+                            }}
+                          >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
                           <DropdownMenuItem 
                             onClick={(e) => {
                               e.stopPropagation()
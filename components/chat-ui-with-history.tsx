@@ -10,8 +10,9 @@ import dynamic from "next/dynamic"
 import { SettingsPanel } from "./settings-panel"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { Send, Paperclip, Smile, Mic, MicOff, Settings2, MenuIcon, User, Bot, Trash2, LogOut, Image, File, X } from "lucide-react"
+import { Send, Paperclip, Smile, Mic, MicOff, Settings2, MenuIcon, User, Bot, Trash2, LogOut, Image, File, X, RefreshCw, ChevronLeft, ChevronRight, Pencil, Square, MapPin, BookOpen } from "lucide-react"
 import { useTheme } from "next-themes"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { cn } from "@/lib/utils"
@@ -23,6 +24,65 @@ import { ChatSidebar } from "./chat-sidebar"
 import { ThemeSelector } from "./theme-selector"
 import { getApiUrl } from "@/lib/api"
 import { generateUUID } from "@/lib/uuid-utils"
+import { readChatStream } from "@/lib/chat-stream"
+import { CitedText, MessageSources } from "./message-sources"
+
+// How long after a new chat's first reply to look for its generated title
+const TITLE_REFRESH_DELAY_MS = 5000
+
+const isImageFile = (file: File) => file.type.startsWith('image/')
+
+// The Web Speech API recognizer, which TypeScript's DOM types don't declare
+interface LiveSpeechRecognition {
+  continuous: boolean
+  interimResults: boolean
+  lang: string
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  start(): void
+  stop(): void
+}
+
+// Chrome and Safari only offer it prefixed
+const getSpeechRecognition = (): (new () => LiveSpeechRecognition) | undefined =>
+  typeof window === 'undefined' ? undefined : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition
+
+// Read an attached image as a data URL; the server accepts these as they are
+const readImageFile = (file: File) => new Promise<{ name: string; mimeType: string; data: string }>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve({ name: file.name, mimeType: file.type, data: reader.result as string })
+  reader.onerror = () => reject(reader.error)
+  reader.readAsDataURL(file)
+})
+
+// Convert a stored message (from history or a branch switch) to the shape the UI renders
+const toDisplayMessage = (msg: any) => ({
+  id: msg.id ?? `${msg.sender ?? msg.role ?? 'unknown'}-${msg.timestamp ?? Date.now()}-${Math.random()}`,
+  role: (msg.sender === 'ai' || msg.role === 'assistant') 
+    ? 'assistant' as const 
+    : 'user' as const,
+  content: msg.text ?? msg.content ?? '',
+  // Database ID and the IDs of its siblings (reply versions or edits)
+  messageId: msg.id,
+  siblingIds: Array.isArray(msg.siblingIds) ? msg.siblingIds : undefined,
+  // "stopped" if generation was cancelled part-way
+  status: msg.status,
+  // Search results the reply cites as [n]
+  sources: Array.isArray(msg.sources) && msg.sources.length > 0 ? msg.sources : undefined,
+  // Files sent with the message: { name, mimeType, url } (no url until a document is saved)
+  attachments: Array.isArray(msg.attachments) && msg.attachments.length > 0 ? msg.attachments : undefined,
+  // Suggested next prompts, shown under the latest reply
+  followUps: Array.isArray(msg.followUps ?? msg.follow_ups) && (msg.followUps ?? msg.follow_ups).length > 0
+    ? (msg.followUps ?? msg.follow_ups)
+    : undefined,
+  timestamp: msg.timestamp instanceof Date 
+    ? msg.timestamp 
+    : msg.timestamp 
+      ? new Date(msg.timestamp)
+      : msg.created_at
+        ? new Date(msg.created_at)
+        : new Date()
+})
 
 const ChatUIWithHistory: React.FC = () => {
   const { token, logout } = useAuth()
@@ -40,6 +100,7 @@ const ChatUIWithHistory: React.FC = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
+  const [isTranscribing, setIsTranscribing] = useState(false)
   const [isEmojiPickerOpen, setIsEmojiPickerOpen] = useState(false)
   const [attachedFiles, setAttachedFiles] = useState<File[]>([])
   const [currentChatId, setCurrentChatId] = useState<string>(() => {
@@ -53,6 +114,24 @@ const ChatUIWithHistory: React.FC = () => {
   const [localMessages, setLocalMessages] = useState<any[]>([])
   // Local loading state for direct API calls (not using useChat hook)
   const [isSendingMessage, setIsSendingMessage] = useState(false)
+  // User message being edited (local ID) and its draft text
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState("")
+  // Browser location shared from the composer; sent with each message for "weather here"
+  const [userLocation, setUserLocation] = useState<{ lat: number; lon: number } | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+  // "Answer from my documents" for the current chat; saved with the chat when a message is sent
+  const [useDocuments, setUseDocuments] = useState(false)
+  // Aborting this cancels the reply being streamed (Stop button)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Bumped to make the sidebar reload its chat list
+  const [sidebarRefreshKey, setSidebarRefreshKey] = useState(0)
+
+  const refreshSidebarAfterFirstReply = () => {
+    setSidebarRefreshKey(key => key + 1)
+    // Title generation runs after the reply has been sent
+    setTimeout(() => setSidebarRefreshKey(key => key + 1), TITLE_REFRESH_DELAY_MS)
+  }
 
   const { 
     messages: aiMessages, 
@@ -101,20 +180,15 @@ const ChatUIWithHistory: React.FC = () => {
     e.preventDefault();
     
     // ✅ Get the trimmed message value FIRST (before any state updates)
-    const msg = input?.trim();
-    if (!msg || msg.length === 0) {
+    const msg = input?.trim() || '';
+    // Attached files can be sent on their own, without any text
+    if (msg.length === 0 && attachedFiles.length === 0) {
       console.warn("⚠️ Attempted to send empty message - ignoring");
       return; // Do nothing if message is empty
     }
     
     console.log("📤 SENDING MESSAGE:", msg);
     
-    // Check if this message should trigger web search
-    const willTriggerWebSearch = shouldTriggerWebSearch(msg)
-    if (willTriggerWebSearch) {
-      setIsWebSearching(true)
-    }
-    
     // ✅ Clear input state NOW (before sending) - we already have the value in 'msg'
     setInput('');
     
@@ -123,209 +197,386 @@ const ChatUIWithHistory: React.FC = () => {
     if (inputElement) {
       inputElement.value = '';
     }
-    
-    // If there are attached files, we need to handle them
-    if (attachedFiles.length > 0) {
-      console.log('📎 Sending message with', attachedFiles.length, 'attached files');
-      setIsUploading(true);
-      
+
+    await sendMessage(msg);
+  }
+
+  // Send a message, typed in the composer or picked from the suggested follow-ups
+  const sendMessage = async (msg: string) => {
+    // ✅ CRITICAL: Show user message IMMEDIATELY, then make API call
+    // Images alone go inline in the JSON body; any other file turns the request into a form upload
+    const files = attachedFiles;
+    const documents = files.filter(file => !isImageFile(file));
+    let images: { name: string; mimeType: string; data: string }[] = [];
+    if (files.length > 0) {
       try {
-        // Create FormData to send files
+        images = await Promise.all(files.filter(isImageFile).map(readImageFile));
+      } catch (error) {
+        console.error('❌ Error reading attached images:', error);
+        toast.error('Could not read the attached image');
+        return;
+      }
+      setAttachedFiles([]);
+    }
+
+    // Step 1: Add user message to UI IMMEDIATELY (before API call)
+    const userMessage = {
+      id: `user-${Date.now()}`,
+      role: 'user' as const,
+      content: msg, // Use captured value
+      // Data URLs double as thumbnails until the saved files' download URLs arrive
+      attachments: files.length > 0
+        ? [
+            ...images.map(image => ({ name: image.name, mimeType: image.mimeType, url: image.data })),
+            ...documents.map(file => ({ name: file.name, mimeType: file.type }))
+          ]
+        : undefined
+    };
+    
+    const assistantPlaceholder = {
+      id: `assistant-${Date.now()}`,
+      role: 'assistant' as const,
+      content: ''
+    };
+    
+    // The server names a new chat after its first reply
+    const isFirstExchange = localMessages.length === 0 && safeAiMessages.length === 0 && normalizedCurrentChatMessages.length === 0;
+
+    // Add user message and placeholder IMMEDIATELY to local state
+    setLocalMessages((prev: any[]) => {
+      if (prev.length > 0) {
+        return [...prev, userMessage, assistantPlaceholder];
+      } else {
+        // Start from what is on screen (includes any regenerated or switched versions)
+        const shown = safeAiMessages.length > 0 ? safeAiMessages : normalizedCurrentChatMessages;
+        return [...shown, userMessage, assistantPlaceholder];
+      }
+    });
+    
+    // Also add to useChat state
+    setMessages((prev: any[]) => {
+      const current = Array.isArray(prev) ? prev : [];
+      return [...current, userMessage, assistantPlaceholder];
+    });
+    
+    // Step 2: Set loading state
+    setIsSendingMessage(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
+    // Step 3: Make API call
+    try {
+      let requestInit: RequestInit;
+      if (documents.length > 0) {
+        console.log('📎 Sending message with', files.length, 'attached files');
         const formData = new FormData();
         formData.append('message', msg); // Use the captured message value, not state
-        formData.append('userId', userId || '');
         formData.append('chatId', currentChatId || '');
-        
-        // Add files to FormData
-        attachedFiles.forEach((file, index) => {
-          formData.append('files', file);
-        });
-        
-        // Send the message with files
-        const response = await fetch(getApiUrl('/api/chat'), {
-          method: 'POST',
+        if (userLocation) {
+          formData.append('location', JSON.stringify(userLocation));
+        }
+        formData.append('useDocuments', String(useDocuments));
+        files.forEach((file) => formData.append('files', file));
+        // The browser sets the multipart Content-Type with its boundary
+        requestInit = { headers: { 'Authorization': `Bearer ${token}` }, body: formData };
+        setIsUploading(true);
+      } else {
+        requestInit = {
           headers: {
+            'Content-Type': 'application/json',
             'Authorization': `Bearer ${token}`
           },
-          body: formData
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('❌ Server response error:', response.status, errorText);
-          throw new Error(`Server error: ${response.status} - ${errorText}`);
-        }
-        
-        const data = await response.json();
-        console.log('✅ Message with files sent successfully:', data);
-        
-        // Clear the input and attached files
-        setAttachedFiles([]);
-        setIsWebSearching(false);
-        setIsUploading(false);
-        
-        // Clear the input field using the proper method
-        const inputElement = document.querySelector('input[type="text"]') as HTMLInputElement;
-        if (inputElement) {
-          inputElement.value = '';
-          // Trigger input change event to update state
-          const event = new Event('input', { bubbles: true });
-          inputElement.dispatchEvent(event);
-        }
-        
-        toast.success(`Message sent with ${attachedFiles.length} file(s) attached`);
-        
-        // Don't refetch chat history - we already have messages in state
-        // Refetching causes loading screen flash/blink
-        // The sidebar will update when user navigates or on next mount
-        
-      } catch (error) {
-        console.error('❌ Error sending message with files:', error);
-        toast.error('Failed to send message with files');
-        setIsUploading(false);
+          body: JSON.stringify({
+            message: msg, // Use captured value, not state
+            chatId: currentChatId,
+            userId: userId,
+            location: userLocation ?? undefined,
+            useDocuments,
+            images: images.length > 0 ? images : undefined
+          })
+        };
       }
-    } else {
-      // No files attached - send message directly
-      // ✅ CRITICAL: Show user message IMMEDIATELY, then make API call
+
+      const response = await fetch(getApiUrl('/api/chat'), {
+        ...requestInit,
+        method: 'POST',
+        signal: abortController.signal
+      });
+      setIsUploading(false);
       
-      // Step 1: Add user message to UI IMMEDIATELY (before API call)
-      const userMessage = {
-        id: `user-${Date.now()}`,
-        role: 'user' as const,
-        content: msg // Use captured value
-      };
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `Server error: ${response.status}`);
+      }
       
-      const assistantPlaceholder = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant' as const,
-        content: ''
-      };
+      // Read the streaming response
+      const assistantMessageId = assistantPlaceholder.id;
+      const { text: assistantMessage, error: streamError, stopped } = await readChatStream(response, {
+        onText: (content) => patchMessage(assistantMessageId, { content }),
+        // The model called a tool (weather, web search) - show the fetching indicator
+        onToolCall: () => setIsWebSearching(true),
+        onToolResult: () => setIsWebSearching(false),
+        onSources: (sources) => patchMessage(assistantMessageId, { sources }),
+        onFollowUps: (followUps) => patchMessage(assistantMessageId, { followUps }),
+        // Saved row IDs - needed to regenerate the reply later - and the stored files
+        onData: (saved) => {
+          patchMessage(userMessage.id, {
+            messageId: saved.userMessageId,
+            ...(saved.attachments?.length > 0 && { attachments: saved.attachments })
+          });
+          if (saved.assistantMessageId) {
+            patchMessage(assistantMessageId, {
+              messageId: saved.assistantMessageId,
+              siblingIds: [saved.assistantMessageId]
+            });
+          }
+        }
+      });
       
-      // Add user message and placeholder IMMEDIATELY to local state
-      setLocalMessages((prev: any[]) => {
-        if (prev.length > 0) {
-          return [...prev, userMessage, assistantPlaceholder];
+      if (stopped) {
+        // Keep whatever arrived before Stop; the server saves the same partial reply
+        if (assistantMessage) {
+          patchMessage(assistantMessageId, { status: 'stopped' });
         } else {
-          return [...normalizedCurrentChatMessages, userMessage, assistantPlaceholder];
+          removeMessage(assistantMessageId);
         }
-      });
+      } else if (streamError) {
+        console.error('❌ Stream error:', streamError);
+        if (!assistantMessage) {
+          throw new Error(streamError);
+        }
+        toast.error('The response was interrupted before it finished.');
+      }
       
-      // Also add to useChat state
-      setMessages((prev: any[]) => {
-        const current = Array.isArray(prev) ? prev : [];
-        return [...current, userMessage, assistantPlaceholder];
-      });
+      // Clear loading state
+      setIsSendingMessage(false);
+      abortControllerRef.current = null;
       
-      // Step 2: Set loading state
-      setIsSendingMessage(true);
+      // Don't refetch chat history - we already updated messages in state
+      // Refetching causes loading screen flash/blink
+      // A new chat does need to show up in the sidebar, and again once it has a title
+      if (isFirstExchange && assistantMessage) {
+        refreshSidebarAfterFirstReply();
+      }
       
-      // Step 3: Make API call
-      try {
-        const response = await fetch(getApiUrl('/api/chat'), {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            message: msg, // Use captured value, not state
-            chatId: currentChatId,
-            userId: userId
+      // Reset web search loading
+      setTimeout(() => setIsWebSearching(false), 2000);
+      
+    } catch (error) {
+      // Stopped before the response started - nothing to report
+      if ((error as any)?.name !== 'AbortError') {
+        console.error('❌ Error sending message:', error);
+        toast.error(error instanceof Error && documents.length > 0 ? error.message : 'Failed to send message. Please try again.');
+      }
+      setIsSendingMessage(false);
+      setIsWebSearching(false);
+      setIsUploading(false);
+      abortControllerRef.current = null;
+      
+      // Remove the placeholder assistant message on error
+      removeMessage(assistantPlaceholder.id);
+    }
+  }
+
+  // Update a displayed message (by its local ID) in both message states
+  const patchMessage = (id: string, patch: Record<string, any>) => {
+    const apply = (prev: any[]) =>
+      prev.map((msgItem: any) => msgItem.id === id ? { ...msgItem, ...patch } : msgItem)
+    setMessages(apply as any)
+    setLocalMessages(apply)
+  }
+
+  // Remove a displayed message (by its local ID) from both message states
+  const removeMessage = (id: string) => {
+    const apply = (prev: any[]) => prev.filter((msgItem: any) => msgItem.id !== id)
+    setMessages(apply as any)
+    setLocalMessages(apply)
+  }
+
+  // Cancel the reply being streamed; the server stops generating and saves what it has
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Replace everything on screen, e.g. after switching branches
+  const showMessages = (displayed: any[]) => {
+    setMessages(displayed as any)
+    setLocalMessages(displayed)
+  }
+
+  // Stream a reply from a branching endpoint (regenerate or edit) into the assistant message `replyId`.
+  // Resolves to false if the user stopped it before any text arrived
+  const streamBranchReply = async (
+    url: string,
+    init: RequestInit,
+    replyId: string,
+    onData: (saved: any) => void
+  ) => {
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    let response: Response
+    try {
+      response = await fetch(getApiUrl(url), {
+        method: 'POST',
+        ...init,
+        signal: abortController.signal,
+        headers: { 'Authorization': `Bearer ${token}`, ...init.headers }
+      })
+    } catch (error) {
+      if ((error as any)?.name === 'AbortError') return false
+      throw error
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      // What the server kept despite the failure (an edit), as in the `2:` frame
+      if (errorData.saved) onData(errorData.saved)
+      throw new Error(errorData.error || `Server error: ${response.status}`)
+    }
+
+    const { text, error: streamError, stopped } = await readChatStream(response, {
+      onText: (content) => patchMessage(replyId, { content }),
+      onToolCall: () => setIsWebSearching(true),
+      onToolResult: () => setIsWebSearching(false),
+      onSources: (sources) => patchMessage(replyId, { sources }),
+      onFollowUps: (followUps) => patchMessage(replyId, { followUps }),
+      onData
+    })
+
+    if (stopped) {
+      if (text) patchMessage(replyId, { status: 'stopped' })
+      return Boolean(text)
+    }
+
+    if (streamError) {
+      console.error('❌ Stream error:', streamError)
+      if (!text) {
+        throw new Error(streamError)
+      }
+      toast.error('The response was interrupted before it finished.')
+    }
+    return true
+  }
+
+  // Generate a new version of a reply. It starts a new branch, so later messages are hidden
+  const handleRegenerate = async (m: any) => {
+    if (!m.messageId || isSendingMessage) return
+
+    const previous = allMessages
+    const index = previous.findIndex((msgItem: any) => msgItem.id === m.id)
+    setIsSendingMessage(true)
+    showMessages([...previous.slice(0, index), { ...m, content: '', sources: undefined, status: undefined, followUps: undefined }])
+
+    try {
+      const replied = await streamBranchReply(
+        `/api/messages/${m.messageId}/regenerate`,
+        {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ location: userLocation ?? undefined })
+        },
+        m.id,
+        (saved) => patchMessage(m.id, { messageId: saved.messageId, siblingIds: saved.siblingIds })
+      )
+      if (!replied) showMessages(previous)
+    } catch (error) {
+      console.error('❌ Error regenerating response:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate response')
+      showMessages(previous)
+    } finally {
+      setIsSendingMessage(false)
+      setIsWebSearching(false)
+      abortControllerRef.current = null
+    }
+  }
+
+  // Edit a user message: the edited text forks the chat into a new branch with a fresh reply
+  const handleEditSubmit = async (m: any) => {
+    const content = editDraft.trim()
+    setEditingMessageId(null)
+    if (!m.messageId || isSendingMessage || !content || content === m.content) return
+
+    const previous = allMessages
+    const index = previous.findIndex((msgItem: any) => msgItem.id === m.id)
+    const editedMessage = { id: `user-${Date.now()}`, role: 'user' as const, content, siblingIds: m.siblingIds, attachments: m.attachments }
+    const assistantPlaceholder = { id: `assistant-${Date.now()}`, role: 'assistant' as const, content: '' }
+    setIsSendingMessage(true)
+    showMessages([...previous.slice(0, index), editedMessage, assistantPlaceholder])
+    let editSaved = false
+
+    try {
+      const replied = await streamBranchReply(
+        `/api/messages/${m.messageId}/edit`,
+        {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content, location: userLocation ?? undefined })
+        },
+        assistantPlaceholder.id,
+        (saved) => {
+          editSaved = true
+          patchMessage(editedMessage.id, {
+            messageId: saved.userMessageId,
+            siblingIds: saved.siblingIds,
+            ...(saved.attachments?.length > 0 && { attachments: saved.attachments })
           })
-        });
-        
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-          throw new Error(errorData.error || `Server error: ${response.status}`);
-        }
-        
-        // Get the streaming response
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let assistantMessage = '';
-        const assistantMessageId = assistantPlaceholder.id;
-        
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n');
-            
-            for (const line of lines) {
-              if (line.startsWith('0:')) {
-                try {
-                  const data = JSON.parse(line.slice(2));
-                  assistantMessage = data;
-                  
-                  // Update the assistant message in both states
-                  setMessages((prev: any[]) => 
-                    prev.map((msgItem: any) => 
-                      msgItem.id === assistantMessageId 
-                        ? { ...msgItem, content: assistantMessage }
-                        : msgItem
-                    )
-                  );
-                  
-                  // Also update local state for immediate display
-                  setLocalMessages((prev: any[]) => 
-                    prev.map((msgItem: any) => 
-                      msgItem.id === assistantMessageId 
-                        ? { ...msgItem, content: assistantMessage }
-                        : msgItem
-                    )
-                  );
-                } catch (e) {
-                  // Ignore parse errors
-                }
-              }
-            }
+          if (saved.assistantMessageId) {
+            patchMessage(assistantPlaceholder.id, {
+              messageId: saved.assistantMessageId,
+              siblingIds: [saved.assistantMessageId]
+            })
           }
         }
-        
-        // Clear loading state
-        setIsSendingMessage(false);
-        
-        // Don't refetch chat history - we already updated messages in state
-        // Refetching causes loading screen flash/blink
-        // The sidebar will update when user navigates or component re-renders
-        
-        // Reset web search loading
-        setTimeout(() => setIsWebSearching(false), 2000);
-        
-      } catch (error) {
-        console.error('❌ Error sending message:', error);
-        toast.error('Failed to send message. Please try again.');
-        setIsSendingMessage(false);
-        setIsWebSearching(false);
-        
-        // Remove the placeholder assistant message on error
-        setLocalMessages((prev: any[]) => 
-          prev.filter((msg: any) => msg.id !== assistantPlaceholder.id)
-        );
-        setMessages((prev: any[]) => 
-          prev.filter((msg: any) => msg.id !== assistantPlaceholder.id)
-        );
+      )
+      // The edited message is already saved, so only the empty reply goes
+      if (!replied) removeMessage(assistantPlaceholder.id)
+    } catch (error) {
+      console.error('❌ Error editing message:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to edit message')
+      // Once saved, the edit is the server's active branch even without a reply
+      if (editSaved) {
+        removeMessage(assistantPlaceholder.id)
+      } else {
+        showMessages(previous)
       }
+    } finally {
+      setIsSendingMessage(false)
+      setIsWebSearching(false)
+      abortControllerRef.current = null
     }
   }
+
+  // Switch to a sibling (another reply version or edit); the chat shows that branch from then on
+  const handleSelectSibling = async (siblingId: string) => {
+    try {
+      const response = await fetch(getApiUrl(`/api/messages/${siblingId}`), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ isActive: true })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      showMessages(data.messages.map(toDisplayMessage))
+    } catch (error) {
+      console.error('❌ Error switching branch:', error)
+      toast.error('Failed to switch branch')
+    }
+  }
+
   const { theme, setTheme } = useTheme()
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-
-  // Check if message should trigger web search
-  const shouldTriggerWebSearch = (message: string) => {
-    const searchKeywords = [
-      'latest', 'today', 'current', 'news', 'weather', 'recent',
-      'now', 'happening', 'breaking', 'update', 'trending',
-      'what is', 'who is', 'when did', 'where is', 'how to',
-      'best', 'top', 'new', 'recent', '2024', '2025'
-    ]
-    const lowerMessage = message.toLowerCase()
-    return searchKeywords.some(keyword => lowerMessage.includes(keyword))
-  }
+  const speechRecognitionRef = useRef<LiveSpeechRecognition | null>(null)
+  // Composer text from before the recording, and what the browser heard since
+  const recordingPrefixRef = useRef('')
+  const liveTranscriptRef = useRef('')
 
   // ============================================
   // FIX 3: CRASH-PROOF MESSAGE RENDERING
@@ -335,22 +586,18 @@ const ChatUIWithHistory: React.FC = () => {
     ? historyChats.find(chat => chat?.chatId === currentChatId || chat?.id === currentChatId)
     : null;
   
+  // Show the opened chat's document setting (new chats start without it)
+  useEffect(() => {
+    setUseDocuments(!!currentChat?.use_documents)
+  }, [currentChatId, !!currentChat])
+
   const currentChatMessages = Array.isArray(currentChat?.messages) 
     ? currentChat.messages 
     : [];
   
   // Normalize current chat messages - ensure array before mapping
   const normalizedCurrentChatMessages = Array.isArray(currentChatMessages)
-    ? currentChatMessages.map((msg: any) => ({
-        id: msg.id ?? `history-${msg.timestamp ?? Date.now()}-${Math.random()}`,
-        role: (msg.sender === 'ai' || msg.role === 'assistant') ? 'assistant' as const : 'user' as const,
-        content: msg.text ?? msg.content ?? '',
-        timestamp: msg.timestamp instanceof Date 
-          ? msg.timestamp 
-          : msg.timestamp 
-            ? new Date(msg.timestamp)
-            : new Date()
-      }))
+    ? currentChatMessages.map(toDisplayMessage)
     : [];
   
   // Ensure aiMessages is an array before combining
@@ -367,8 +614,9 @@ const ChatUIWithHistory: React.FC = () => {
   // CRITICAL: When a chat is selected, handleSelectChat sets aiMessages via setMessages
   // So we should use aiMessages directly, not combine with normalizedCurrentChatMessages
   // (which might be stale or empty)
+  // (localMessages already starts with the chat's earlier messages)
   const allMessages = localMessages.length > 0
-    ? [...normalizedCurrentChatMessages, ...localMessages]
+    ? localMessages
     : safeAiMessages.length > 0 
       ? safeAiMessages // Use aiMessages directly (set by handleSelectChat)
       : normalizedCurrentChatMessages
@@ -512,18 +760,7 @@ const ChatUIWithHistory: React.FC = () => {
       : [];
     
     // Convert chat messages to the format expected by the UI - with safe mapping
-    const normalizedMessages = chatMessages.map((msg: any) => ({
-      id: msg.id ?? `${msg.sender ?? msg.role ?? 'unknown'}-${msg.timestamp ?? Date.now()}-${Math.random()}`,
-      role: (msg.sender === 'ai' || msg.role === 'assistant') 
-        ? 'assistant' as const 
-        : 'user' as const,
-      content: msg.text ?? msg.content ?? '',
-      timestamp: msg.timestamp instanceof Date 
-        ? msg.timestamp 
-        : msg.timestamp 
-          ? new Date(msg.timestamp)
-          : new Date()
-    }));
+    const normalizedMessages = chatMessages.map(toDisplayMessage);
     
     // ✅ CRITICAL: Clear localMessages FIRST, then set messages
     // This ensures allMessages uses the correct messages from the selected chat
@@ -549,6 +786,39 @@ const ChatUIWithHistory: React.FC = () => {
     setAttachedFiles(prev => prev.filter((_, i) => i !== index))
   }
 
+  // Share or stop sharing the browser location
+  const handleLocationClick = () => {
+    if (userLocation) {
+      setUserLocation(null)
+      toast.success('Stopped sharing your location')
+      return
+    }
+    if (!navigator.geolocation) {
+      toast.error('Location is not supported by this browser')
+      return
+    }
+
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setUserLocation({ lat: position.coords.latitude, lon: position.coords.longitude })
+        setIsLocating(false)
+        toast.success('Location shared for weather questions')
+      },
+      (error) => {
+        console.error('❌ Geolocation error:', error)
+        setIsLocating(false)
+        toast.error(error.code === error.PERMISSION_DENIED ? 'Location permission denied' : 'Could not get your location')
+      },
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    )
+  }
+
+  const handleDocumentsClick = () => {
+    setUseDocuments(!useDocuments)
+    toast.success(useDocuments ? 'Stopped answering from your documents' : 'Answers will draw on your document library')
+  }
+
   // Emoji picker handlers
   const handleEmojiClick = () => {
     setIsEmojiPickerOpen(!isEmojiPickerOpen)
@@ -561,25 +831,95 @@ const ChatUIWithHistory: React.FC = () => {
     setIsEmojiPickerOpen(false)
   }
 
+  // Show the words in the composer while they are spoken, where the browser can
+  const startLiveTranscript = () => {
+    const SpeechRecognition = getSpeechRecognition()
+    if (!SpeechRecognition) return
+
+    try {
+      const recognition = new SpeechRecognition()
+      recognition.continuous = true
+      recognition.interimResults = true
+      recognition.lang = navigator.language
+      recognition.onresult = (event) => {
+        // Final and interim results together make up everything heard so far
+        let transcript = ''
+        for (let i = 0; i < event.results.length; i++) {
+          transcript += event.results[i][0].transcript
+        }
+        liveTranscriptRef.current = transcript.trim()
+        setInput(recordingPrefixRef.current + liveTranscriptRef.current)
+      }
+      recognition.onerror = (event) => console.warn('⚠️ Live transcription stopped:', event.error)
+      recognition.start()
+      speechRecognitionRef.current = recognition
+    } catch (error) {
+      console.warn('⚠️ Live transcription unavailable:', error)
+    }
+  }
+
+  // The server's transcript replaces the live one, which is rougher (and missing in some browsers)
+  const transcribeRecording = async (audioBlob: Blob) => {
+    setIsTranscribing(true)
+    try {
+      const extension = audioBlob.type.includes('mp4') ? 'mp4' : audioBlob.type.includes('ogg') ? 'ogg' : 'webm'
+      const formData = new FormData()
+      formData.append('audio', audioBlob, `recording.${extension}`)
+      formData.append('language', navigator.language)
+
+      const response = await fetch(getApiUrl('/api/transcribe'), {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      // Late live results must not overwrite the transcript
+      if (speechRecognitionRef.current) {
+        speechRecognitionRef.current.onresult = null
+      }
+      const text = typeof data.text === 'string' ? data.text.trim() : ''
+      if (text) {
+        setInput(recordingPrefixRef.current + text)
+      } else if (!liveTranscriptRef.current) {
+        toast.error("No speech was recognised")
+      }
+    } catch (error) {
+      console.error('❌ Error transcribing recording:', error)
+      toast.error(liveTranscriptRef.current ? "Transcription failed; kept the live transcript" : "Failed to transcribe the recording")
+    } finally {
+      speechRecognitionRef.current = null
+      setIsTranscribing(false)
+    }
+  }
+
   // Voice recording handlers
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
       const mediaRecorder = new MediaRecorder(stream)
       mediaRecorderRef.current = mediaRecorder
+      recordingPrefixRef.current = input.trim() ? `${input.trim()} ` : ''
+      liveTranscriptRef.current = ''
       
       const chunks: BlobPart[] = []
       mediaRecorder.ondataavailable = (e) => chunks.push(e.data)
       
       mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(chunks, { type: 'audio/wav' })
-        // Handle the recorded audio
-        console.log('Audio recorded:', audioBlob)
-        toast.success("Voice message recorded!")
+        // Release the microphone
+        stream.getTracks().forEach(track => track.stop())
+        // The browser picks the format (WebM or Ogg, MP4 in Safari)
+        const audioBlob = new Blob(chunks, { type: mediaRecorder.mimeType || 'audio/webm' })
+        transcribeRecording(audioBlob)
       }
       
       mediaRecorder.start()
       setIsRecording(true)
+      startLiveTranscript()
       toast.success("Recording started...")
     } catch (error) {
       console.error('Error starting recording:', error)
@@ -590,8 +930,8 @@ const ChatUIWithHistory: React.FC = () => {
   const stopRecording = () => {
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop()
+      speechRecognitionRef.current?.stop()
       setIsRecording(false)
-      toast.success("Recording stopped")
     }
   }
 
@@ -666,6 +1006,7 @@ const ChatUIWithHistory: React.FC = () => {
         onNewChat={handleNewChat}
         onSelectChat={handleSelectChat}
         currentChatId={currentChatId}
+        refreshKey={sidebarRefreshKey}
       />
 
       {/* Main Content */}
@@ -744,21 +1085,153 @@ const ChatUIWithHistory: React.FC = () => {
                   {m.role === "assistant" && (
                     <div className="w-2 h-2 rounded-full bg-[#c7f000] mb-2 inline-block mr-2"></div>
                   )}
-                  {m.content && typeof m.content === 'string' && m.content.trim().length > 0 ? (
+                  {Array.isArray(m.attachments) && editingMessageId !== m.id && (
+                    <div className="flex flex-wrap gap-1.5 mb-1.5">
+                      {m.attachments.map((file: { name: string; mimeType?: string; url?: string }, i: number) =>
+                        file.url && file.mimeType?.startsWith('image/') ? (
+                          <a key={i} href={file.url} target="_blank" rel="noopener noreferrer">
+                            <img src={file.url} alt={file.name} className="max-h-32 max-w-[10rem] rounded-lg object-cover" />
+                          </a>
+                        ) : file.url ? (
+                          <a
+                            key={i}
+                            href={file.url}
+                            download={file.name}
+                            className="flex items-center gap-1 rounded-lg bg-black/10 px-2 py-1 text-[10px] sm:text-xs hover:bg-black/20"
+                          >
+                            <File size={12} />
+                            <span className="truncate max-w-32">{file.name}</span>
+                          </a>
+                        ) : (
+                          <span key={i} className="flex items-center gap-1 rounded-lg bg-black/10 px-2 py-1 text-[10px] sm:text-xs">
+                            <File size={12} />
+                            <span className="truncate max-w-32">{file.name}</span>
+                          </span>
+                        )
+                      )}
+                    </div>
+                  )}
+                  {editingMessageId === m.id ? (
+                    <div className="flex flex-col gap-2 min-w-[12rem]">
+                      <Textarea
+                        value={editDraft}
+                        onChange={(e) => setEditDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault()
+                            handleEditSubmit(m)
+                          } else if (e.key === 'Escape') {
+                            setEditingMessageId(null)
+                          }
+                        }}
+                        className="min-h-16 text-xs sm:text-sm"
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setEditingMessageId(null)}>
+                          Cancel
+                        </Button>
+                        <Button type="button" size="sm" onClick={() => handleEditSubmit(m)} disabled={!editDraft.trim()}>
+                          Send
+                        </Button>
+                      </div>
+                    </div>
+                  ) : m.content && typeof m.content === 'string' && m.content.trim().length > 0 ? (
                     m.content.split("\n").map((line: string, i: number) => (
                       <span key={i}>
-                        {line}
+                        <CitedText text={line} sources={m.sources} />
                         {i !== m.content.split("\n").length - 1 && <br />}
                       </span>
                     ))
                   ) : m.role === "assistant" ? (
                     <span className="text-muted-foreground italic flex items-center gap-2">
                       <span className="animate-pulse">●</span>
-                      Thinking...
+                      {isWebSearching ? "Fetching latest info..." : "Thinking..."}
                     </span>
-                  ) : (
+                  ) : Array.isArray(m.attachments) ? null : (
                     <span className="text-muted-foreground italic">No content</span>
                   )}
+                  {m.role === "assistant" && m.content && <MessageSources sources={m.sources} />}
+                  {m.status === "stopped" && m.content && (
+                    <span className="block mt-1 text-[10px] sm:text-xs italic text-muted-foreground">Stopped</span>
+                  )}
+                  {m.role === "assistant" && Array.isArray(m.followUps) && index === allMessages.length - 1 && !isSendingMessage && editingMessageId === null && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {m.followUps.map((prompt: string) => (
+                        <button
+                          key={prompt}
+                          type="button"
+                          onClick={() => sendMessage(prompt)}
+                          className="px-2.5 py-1 rounded-full text-[10px] sm:text-xs text-left rovoxa-text-secondary hover:rovoxa-text-primary rovoxa-bg-glass-soft border border-border-glass hover:border-[#c7f000]/50 transition-colors"
+                        >
+                          {prompt}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {m.content && editingMessageId !== m.id && (() => {
+                    // Branch controls: page between siblings, regenerate a reply, edit a user message
+                    const siblingIds: string[] = Array.isArray(m.siblingIds) ? m.siblingIds : []
+                    const siblingIndex = siblingIds.indexOf(m.messageId)
+                    const canBranch = !!m.messageId && !isSendingMessage
+                    if (siblingIds.length < 2 && !canBranch) return null
+                    return (
+                      <div className={cn("flex items-center gap-1 mt-2 text-muted-foreground", m.role === "user" && "justify-end")}>
+                        {siblingIds.length > 1 && siblingIndex >= 0 && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              disabled={siblingIndex <= 0 || isSendingMessage}
+                              onClick={() => handleSelectSibling(siblingIds[siblingIndex - 1])}
+                              aria-label="Previous version"
+                            >
+                              <ChevronLeft size={12} />
+                            </Button>
+                            <span className="text-[10px] sm:text-xs tabular-nums">{siblingIndex + 1}/{siblingIds.length}</span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              disabled={siblingIndex >= siblingIds.length - 1 || isSendingMessage}
+                              onClick={() => handleSelectSibling(siblingIds[siblingIndex + 1])}
+                              aria-label="Next version"
+                            >
+                              <ChevronRight size={12} />
+                            </Button>
+                          </>
+                        )}
+                        {canBranch && m.role === "assistant" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-5 w-5"
+                            onClick={() => handleRegenerate(m)}
+                            aria-label="Regenerate response"
+                            title="Regenerate response"
+                          >
+                            <RefreshCw size={12} />
+                          </Button>
+                        )}
+                        {canBranch && m.role === "user" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-5 w-5"
+                            onClick={() => {
+                              setEditDraft(m.content)
+                              setEditingMessageId(m.id)
+                            }}
+                            aria-label="Edit message"
+                            title="Edit message"
+                          >
+                            <Pencil size={12} />
+                          </Button>
+                        )}
+                      </div>
+                    )
+                  })()}
                 </div>
                 {m.role === "user" && (
                   <Avatar className="w-5 h-5 sm:w-6 sm:h-6 shrink-0">
@@ -908,7 +1381,7 @@ const ChatUIWithHistory: React.FC = () => {
               ref={fileInputRef}
               type="file"
               multiple
-              accept="image/*,video/*,audio/*,.pdf,.doc,.docx,.txt"
+              accept="image/*,.txt,.md,.csv,.json,.pdf,.doc,.docx,.xls,.xlsx,.pptx"
               onChange={handleFileChange}
               className="hidden"
             />
@@ -935,6 +1408,42 @@ const ChatUIWithHistory: React.FC = () => {
              
              {/* Right Side Buttons */}
              <div className="flex items-center space-x-0.5 sm:space-x-1 ml-1 sm:ml-2">
+               {/* Location Button */}
+               <Button 
+                 variant="ghost" 
+                 size="icon" 
+                 type="button" 
+                 onClick={handleLocationClick}
+                 disabled={isLocating}
+                 title={userLocation ? "Stop sharing location" : "Share location"}
+                 className={cn(
+                   "h-7 w-7 sm:h-8 sm:w-8 transition-all duration-200 hover:scale-110",
+                   userLocation 
+                     ? "rovoxa-accent-green rovoxa-bg-accent-green-soft" 
+                     : "rovoxa-text-secondary hover:rovoxa-accent-green",
+                   isLocating && "animate-pulse"
+                 )}
+               >
+                 <MapPin size={16} className="sm:w-[18px] sm:h-[18px]" />
+               </Button>
+
+               {/* Document Library Button */}
+               <Button 
+                 variant="ghost" 
+                 size="icon" 
+                 type="button" 
+                 onClick={handleDocumentsClick}
+                 title={useDocuments ? "Stop answering from my documents" : "Answer from my documents"}
+                 className={cn(
+                   "h-7 w-7 sm:h-8 sm:w-8 transition-all duration-200 hover:scale-110",
+                   useDocuments 
+                     ? "rovoxa-accent-green rovoxa-bg-accent-green-soft" 
+                     : "rovoxa-text-secondary hover:rovoxa-accent-green"
+                 )}
+               >
+                 <BookOpen size={16} className="sm:w-[18px] sm:h-[18px]" />
+               </Button>
+               
                {/* Emoji Button */}
                <Button 
                  variant="ghost" 
@@ -957,17 +1466,31 @@ const ChatUIWithHistory: React.FC = () => {
                  size="icon" 
                  type="button" 
                  onClick={handleMicClick}
+                 disabled={isTranscribing}
+                 title={isRecording ? "Stop and transcribe" : isTranscribing ? "Transcribing..." : "Voice input"}
                  className={cn(
                    "h-7 w-7 sm:h-8 sm:w-8 transition-all duration-200 hover:scale-110",
                    isRecording 
                      ? "text-red-400 bg-red-500/20 animate-pulse" 
-                     : "rovoxa-text-secondary hover:rovoxa-accent-green"
+                     : "rovoxa-text-secondary hover:rovoxa-accent-green",
+                   isTranscribing && "animate-pulse"
                  )}
                >
                  {isRecording ? <MicOff size={16} className="sm:w-[18px] sm:h-[18px]" /> : <Mic size={16} className="sm:w-[18px] sm:h-[18px]" />}
                </Button>
                
-               {/* Send Button */}
+               {/* Stop Button (while a reply is streaming) / Send Button */}
+               {isSendingMessage ? (
+               <Button
+                 type="button"
+                 size="icon"
+                 onClick={handleStop}
+                 title="Stop generating"
+                 className="rounded-full w-7 h-7 sm:w-8 sm:h-8 ml-1 sm:ml-2 shrink-0 transition-all duration-200 hover:scale-105 rovoxa-btn-accent"
+               >
+                 <Square size={12} className="sm:w-3.5 sm:h-3.5" fill="#0b0f19" style={{ color: "#0b0f19" }} />
+               </Button>
+               ) : (
                <Button
                  type="submit"
                  size="icon"
@@ -985,6 +1508,7 @@ const ChatUIWithHistory: React.FC = () => {
                    <Send size={14} className="sm:w-4 sm:h-4" style={{ color: input.trim() || attachedFiles.length > 0 ? "#0b0f19" : undefined }} />
                  )}
                </Button>
+               )}
              </div>
           </div>
         </form>
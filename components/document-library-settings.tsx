@@ -0,0 +1,151 @@
+"use client"
+
+import React, { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { File, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/auth-context"
+import { getApiUrl } from "@/lib/api"
+
+interface LibraryDocument {
+  id: string
+  name: string
+  size: number
+  chunkCount: number
+  createdAt: string
+  url: string
+}
+
+const DOCUMENT_TYPES = ".txt,.md,.csv,.json,.pdf,.docx,.xlsx,.pptx"
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+export const DocumentLibrarySettings: React.FC = () => {
+  const { token } = useAuth()
+  const [documents, setDocuments] = useState<LibraryDocument[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const loadDocuments = async () => {
+      try {
+        const response = await fetch(getApiUrl('/api/documents'), {
+          headers: { 'Authorization': `Bearer ${token}` }
+        })
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok) {
+          throw new Error(data.error || `Server error: ${response.status}`)
+        }
+
+        setDocuments(Array.isArray(data.documents) ? data.documents : [])
+      } catch (error) {
+        console.error('❌ Error loading documents:', error)
+        toast.error("Failed to load documents")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (token) {
+      loadDocuments()
+    } else {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  const uploadDocuments = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ""
+    if (files.length === 0) return
+
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      files.forEach(file => formData.append('files', file))
+      // The browser sets the multipart Content-Type with its boundary
+      const response = await fetch(getApiUrl('/api/documents'), {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      setDocuments(prev => [...data.documents, ...prev])
+      for (const failed of data.errors || []) {
+        toast.error(failed.error)
+      }
+      toast.success(`Added ${data.documents.length} document${data.documents.length === 1 ? "" : "s"} to your library`)
+    } catch (error) {
+      console.error('❌ Error uploading documents:', error)
+      toast.error(error instanceof Error ? error.message : "Failed to add documents")
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const removeDocument = async (documentId: string) => {
+    try {
+      const response = await fetch(getApiUrl(`/api/documents/${documentId}`), {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      setDocuments(prev => prev.filter(document => document.id !== documentId))
+    } catch (error) {
+      console.error('❌ Error deleting document:', error)
+      toast.error("Failed to remove document")
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading documents...</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No documents yet. Add handbooks, notes or reports to search them from any chat.</p>
+      ) : (
+        documents.map(document => (
+          <div key={document.id} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+            <File size={14} className="shrink-0 text-muted-foreground" />
+            <a
+              href={document.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex-1 text-sm text-foreground truncate hover:underline"
+            >
+              {document.name}
+            </a>
+            <span className="text-xs text-muted-foreground shrink-0">{formatSize(document.size)}</span>
+            <Button variant="ghost" size="icon" onClick={() => removeDocument(document.id)} className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive">
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={DOCUMENT_TYPES}
+        onChange={uploadDocuments}
+        className="hidden"
+      />
+      <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full" disabled={isUploading || !token}>
+        <Upload className="h-4 w-4 mr-2" />
+        {isUploading ? "Indexing..." : "Add documents"}
+      </Button>
+    </div>
+  )
+}
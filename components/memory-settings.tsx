@@ -0,0 +1,174 @@
+"use client"
+
+import React, { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Check, Pencil, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/auth-context"
+import { getApiUrl } from "@/lib/api"
+
+interface Memory {
+  id: string
+  content: string
+  updated_at: string
+}
+
+export const MemorySettings: React.FC = () => {
+  const { token } = useAuth()
+  const [memories, setMemories] = useState<Memory[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState("")
+
+  const authHeaders = {
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json'
+  }
+
+  useEffect(() => {
+    const loadMemories = async () => {
+      try {
+        const response = await fetch(getApiUrl('/api/memory'), { headers: authHeaders })
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok) {
+          throw new Error(data.error || `Server error: ${response.status}`)
+        }
+
+        setMemories(Array.isArray(data.memories) ? data.memories : [])
+      } catch (error) {
+        console.error('❌ Error loading memories:', error)
+        toast.error("Failed to load memories")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (token) {
+      loadMemories()
+    } else {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  const startEditing = (memory: Memory) => {
+    setEditingId(memory.id)
+    setEditText(memory.content)
+  }
+
+  const saveEdit = async (memoryId: string) => {
+    const content = editText.trim()
+    if (!content) return
+
+    try {
+      const response = await fetch(getApiUrl(`/api/memory/${memoryId}`), {
+        method: 'PATCH',
+        headers: authHeaders,
+        body: JSON.stringify({ content })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      setMemories(prev => prev.map(memory => memory.id === memoryId ? data.memory : memory))
+      setEditingId(null)
+    } catch (error) {
+      console.error('❌ Error updating memory:', error)
+      toast.error("Failed to update memory")
+    }
+  }
+
+  const forgetMemory = async (memoryId: string) => {
+    try {
+      const response = await fetch(getApiUrl(`/api/memory/${memoryId}`), {
+        method: 'DELETE',
+        headers: authHeaders
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      setMemories(prev => prev.filter(memory => memory.id !== memoryId))
+    } catch (error) {
+      console.error('❌ Error deleting memory:', error)
+      toast.error("Failed to forget memory")
+    }
+  }
+
+  const forgetAll = async () => {
+    if (!window.confirm("Forget everything Rovoxa remembers about you?")) return
+
+    try {
+      const response = await fetch(getApiUrl('/api/memory'), {
+        method: 'DELETE',
+        headers: authHeaders
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      setMemories([])
+      toast.success("All memories forgotten")
+    } catch (error) {
+      console.error('❌ Error deleting memories:', error)
+      toast.error("Failed to forget memories")
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading memories...</p>
+  }
+
+  if (memories.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing remembered yet. Facts you share in chats will appear here.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {memories.map(memory => (
+        <div key={memory.id} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+          {editingId === memory.id ? (
+            <>
+              <Input
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveEdit(memory.id)
+                  if (e.key === 'Escape') setEditingId(null)
+                }}
+                className="h-8 text-sm"
+                autoFocus
+              />
+              <Button variant="ghost" size="icon" onClick={() => saveEdit(memory.id)} className="h-7 w-7 shrink-0">
+                <Check size={14} />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setEditingId(null)} className="h-7 w-7 shrink-0">
+                <X size={14} />
+              </Button>
+            </>
+          ) : (
+            <>
+              <span className="flex-1 text-sm text-foreground break-words">{memory.content}</span>
+              <Button variant="ghost" size="icon" onClick={() => startEditing(memory)} className="h-7 w-7 shrink-0 text-muted-foreground">
+                <Pencil size={14} />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => forgetMemory(memory.id)} className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive">
+                <Trash2 size={14} />
+              </Button>
+            </>
+          )}
+        </div>
+      ))}
+      <Button variant="outline" onClick={forgetAll} className="w-full text-destructive">
+        Forget everything
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import React from "react"
+import { Globe } from "lucide-react"
+import type { ChatSource } from "@/lib/chat-stream"
+
+const CITATION_PATTERN = /\[(\d+)\]/g
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "")
+  } catch {
+    return url
+  }
+}
+
+function CitationChip({ source }: { source: ChatSource }) {
+  return (
+    <a
+      href={source.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={source.title}
+      className="inline-flex items-center justify-center min-w-4 h-4 px-1 mx-0.5 rounded-full text-[10px] font-medium align-text-top no-underline rovoxa-bg-glass-soft hover:bg-[#c7f000] hover:text-[#0b0f19] transition-colors"
+    >
+      {source.number}
+    </a>
+  )
+}
+
+/**
+ * Render a line of reply text with its [n] citations as clickable chips.
+ * Numbers without a matching source are left as plain text.
+ */
+export function CitedText({ text, sources }: { text: string; sources?: ChatSource[] }) {
+  if (!sources || sources.length === 0) {
+    return <>{text}</>
+  }
+
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const source = sources.find(s => s.number === Number(match[1]))
+    if (!source) continue
+
+    parts.push(text.slice(lastIndex, match.index))
+    parts.push(<CitationChip key={`${match.index}-${source.number}`} source={source} />)
+    lastIndex = match.index! + match[0].length
+  }
+  parts.push(text.slice(lastIndex))
+
+  return <>{parts}</>
+}
+
+/** Numbered list of the sources a reply drew on, shown below the message */
+export function MessageSources({ sources }: { sources?: ChatSource[] }) {
+  if (!sources || sources.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mt-3 pt-2 border-t border-current/10">
+      <div className="text-[10px] sm:text-xs uppercase tracking-wide text-muted-foreground mb-1">Sources</div>
+      <ol className="flex flex-col gap-1">
+        {sources.map(source => (
+          <li key={source.number} className="flex items-start gap-1.5 text-[11px] sm:text-xs">
+            <span className="text-muted-foreground tabular-nums">{source.number}.</span>
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 min-w-0 hover:underline"
+              title={source.snippet || source.url}
+            >
+              <Globe size={11} className="shrink-0 text-muted-foreground" />
+              <span className="truncate">{source.title}</span>
+              <span className="shrink-0 text-muted-foreground">· {hostname(source.url)}</span>
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -1,28 +1,144 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 
 import type React from "react"
 
 import { motion } from "framer-motion"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
 import { X, Wifi } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ConnectivityTest } from "./connectivity-test"
+import { MemorySettings } from "./memory-settings"
+import { DocumentLibrarySettings } from "./document-library-settings"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/auth-context"
+import { getApiUrl } from "@/lib/api"
+
+const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 2000
+const MAX_DEFAULT_CITY_LENGTH = 100
+
+// OpenWeatherMap language codes offered for weather descriptions
+const WEATHER_LANGUAGES = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "pt_br", name: "Portuguese (Brazil)" },
+  { code: "ar", name: "Arabic" },
+  { code: "hi", name: "Hindi" },
+  { code: "ur", name: "Urdu" },
+  { code: "zh_cn", name: "Chinese (Simplified)" },
+  { code: "ja", name: "Japanese" }
+]
+
+interface ToolInfo {
+  name: string
+  label: string
+  description: string
+}
 
 interface SettingsPanelProps {
   onClose: () => void
 }
 
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
-  // Dummy states for settings
+  const { token } = useAuth()
   const [orbAnimationEnabled, setOrbAnimationEnabled] = useState(true)
   const [voiceInteractionEnabled, setVoiceInteractionEnabled] = useState(false)
   const [aiPersonality, setAiPersonality] = useState("friendly")
+  const [customInstructions, setCustomInstructions] = useState("")
+  const [availableTools, setAvailableTools] = useState<ToolInfo[]>([])
+  const [disabledTools, setDisabledTools] = useState<string[]>([])
+  const [weatherUnits, setWeatherUnits] = useState("metric")
+  const [weatherLanguage, setWeatherLanguage] = useState("en")
+  const [defaultCity, setDefaultCity] = useState("")
+  const [isLoadingSettings, setIsLoadingSettings] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
   const [showConnectivityTest, setShowConnectivityTest] = useState(false)
 
+  // Load saved settings
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch(getApiUrl('/api/settings'), {
+          headers: { 'Authorization': `Bearer ${token}` }
+        })
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok) {
+          throw new Error(data.error || `Server error: ${response.status}`)
+        }
+
+        setAiPersonality(data.settings.personality)
+        setCustomInstructions(data.settings.customInstructions)
+        setOrbAnimationEnabled(data.settings.orbAnimation)
+        setVoiceInteractionEnabled(data.settings.voiceInteraction)
+        setDisabledTools(data.settings.disabledTools || [])
+        setAvailableTools(data.tools || [])
+        setWeatherUnits(data.settings.weatherUnits || "metric")
+        setWeatherLanguage(data.settings.weatherLanguage || "en")
+        setDefaultCity(data.settings.defaultCity || "")
+      } catch (error) {
+        console.error('❌ Error loading settings:', error)
+        toast.error("Failed to load settings")
+      } finally {
+        setIsLoadingSettings(false)
+      }
+    }
+
+    if (token) {
+      loadSettings()
+    } else {
+      setIsLoadingSettings(false)
+    }
+  }, [token])
+
+  const setToolEnabled = (name: string, enabled: boolean) => {
+    setDisabledTools(prev => enabled ? prev.filter(n => n !== name) : [...prev, name])
+  }
+
+  const handleSaveAndClose = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(getApiUrl('/api/settings'), {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          personality: aiPersonality,
+          customInstructions,
+          orbAnimation: orbAnimationEnabled,
+          voiceInteraction: voiceInteractionEnabled,
+          disabledTools,
+          weatherUnits,
+          weatherLanguage,
+          defaultCity
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Server error: ${response.status}`)
+      }
+
+      toast.success("Settings saved")
+      onClose()
+    } catch (error) {
+      console.error('❌ Error saving settings:', error)
+      toast.error(error instanceof Error ? error.message : "Failed to save settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   return (
     <motion.div
       initial={{ x: "100%" }}
@@ -44,7 +160,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
           <Label htmlFor="ai-personality" className="text-foreground text-lg mb-2 block">
             AI Personality
           </Label>
-          <Select value={aiPersonality} onValueChange={setAiPersonality}>
+          <Select value={aiPersonality} onValueChange={setAiPersonality} disabled={isLoadingSettings}>
             <SelectTrigger id="ai-personality" className="w-full">
               <SelectValue placeholder="Select personality" />
             </SelectTrigger>
@@ -57,6 +173,23 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
           </Select>
         </div>
 
+        {/* Custom Instructions */}
+        <div>
+          <Label htmlFor="custom-instructions" className="text-foreground text-lg mb-2 block">
+            Custom Instructions
+          </Label>
+          <Textarea
+            id="custom-instructions"
+            value={customInstructions}
+            onChange={(e) => setCustomInstructions(e.target.value)}
+            maxLength={MAX_CUSTOM_INSTRUCTIONS_LENGTH}
+            placeholder="e.g. Answer in British English and include metric units."
+            className="min-h-24"
+            disabled={isLoadingSettings}
+          />
+          <p className="text-sm text-muted-foreground mt-2">Applied to every reply, together with the personality above.</p>
+        </div>
+
         {/* Hourglass Animation */}
         <div className="flex items-center justify-between">
           <Label htmlFor="orb-animation" className="text-foreground text-lg">
@@ -83,6 +216,90 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
         </div>
         <p className="text-sm text-muted-foreground -mt-6">Enable voice input and output (requires browser permissions).</p>
 
+        {/* Assistant Tools */}
+        {availableTools.length > 0 && (
+          <div>
+            <Label className="text-foreground text-lg mb-2 block">Tools</Label>
+            <p className="text-sm text-muted-foreground mb-3">Live data sources Rovoxa may use when answering.</p>
+            <div className="space-y-4">
+              {availableTools.map(tool => (
+                <div key={tool.name} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`tool-${tool.name}`} className="text-foreground">
+                      {tool.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground mt-1">{tool.description}</p>
+                  </div>
+                  <Switch
+                    id={`tool-${tool.name}`}
+                    checked={!disabledTools.includes(tool.name)}
+                    onCheckedChange={(checked) => setToolEnabled(tool.name, checked)}
+                    disabled={isLoadingSettings}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Weather Preferences */}
+        <div>
+          <Label className="text-foreground text-lg mb-2 block">Weather</Label>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="weather-units" className="text-foreground">Units</Label>
+              <Select value={weatherUnits} onValueChange={setWeatherUnits} disabled={isLoadingSettings}>
+                <SelectTrigger id="weather-units" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="metric">Metric (°C, m/s)</SelectItem>
+                  <SelectItem value="imperial">Imperial (°F, mph)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="weather-language" className="text-foreground">Language</Label>
+              <Select value={weatherLanguage} onValueChange={setWeatherLanguage} disabled={isLoadingSettings}>
+                <SelectTrigger id="weather-language" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEATHER_LANGUAGES.map(language => (
+                    <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="default-city" className="text-foreground mb-2 block">Default City</Label>
+              <Input
+                id="default-city"
+                value={defaultCity}
+                onChange={(e) => setDefaultCity(e.target.value)}
+                maxLength={MAX_DEFAULT_CITY_LENGTH}
+                placeholder="e.g. Lahore, PK"
+                disabled={isLoadingSettings}
+              />
+              <p className="text-sm text-muted-foreground mt-2">Used for &quot;weather here&quot; when you haven&apos;t shared your location.</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Long-term Memory */}
+        <div>
+          <Label className="text-foreground text-lg mb-2 block">Memory</Label>
+          <p className="text-sm text-muted-foreground mb-3">What Rovoxa remembers about you across chats.</p>
+          <MemorySettings />
+        </div>
+
+        {/* Document Library */}
+        <div>
+          <Label className="text-foreground text-lg mb-2 block">Documents</Label>
+          <p className="text-sm text-muted-foreground mb-3">Turn on the book button in a chat to answer from these.</p>
+          <DocumentLibrarySettings />
+        </div>
+
         {/* Connectivity Test Section */}
         <div>
           <Label className="text-foreground text-lg mb-2 block">System Diagnostics</Label>
@@ -104,8 +321,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
       </div>
 
       <div className="mt-auto pt-6 border-t border-border">
-        <Button onClick={onClose} className="w-full">
-          Save & Close
+        <Button onClick={handleSaveAndClose} className="w-full" disabled={isLoadingSettings || isSaving}>
+          {isSaving ? "Saving..." : "Save & Close"}
         </Button>
       </div>
     </motion.div>
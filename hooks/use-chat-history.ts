@@ -14,6 +14,8 @@ interface Chat {
   userId: string;
   chatId: string;
   title: string;
+  /** The chat answers from the user's document library */
+  use_documents?: boolean;
   messages: Message[];
   createdAt: string;
   updatedAt: string;
@@ -105,24 +107,8 @@ export const useChatHistory = () => {
       // ============================================
       // FIX 1: NORMALIZE CHAT HISTORY DATA (CRITICAL)
       // ============================================
-      // Normalize chats - ensure messages is always an array
-      const normalizedChats = (Array.isArray(data.chats) ? data.chats : []).map((chat: any) => ({
-        ...chat,
-        id: chat.id ?? chat._id ?? chat.chatId,
-        chatId: chat.chatId ?? chat.id ?? chat._id,
-        messages: Array.isArray(chat.messages) ? chat.messages : [],
-        createdAt: typeof chat.createdAt === "string" || typeof chat.createdAt === "number"
-          ? chat.createdAt
-          : chat.created_at || chat.updatedAt || chat.updated_at || new Date().toISOString(),
-        updatedAt: typeof chat.updatedAt === "string" || typeof chat.updatedAt === "number"
-          ? chat.updatedAt
-          : chat.updated_at || chat.createdAt || chat.created_at || new Date().toISOString(),
-        title: chat.title ?? 'New Chat',
-        userId: chat.userId ?? chat.user_id ?? userId
-      }));
-      
       // Normalize messages to ensure consistent data shape
-      const normalizedMessages = (Array.isArray(data.messages) ? data.messages : []).map((msg: any) => ({
+      const normalizeMessage = (msg: any) => ({
         ...msg,
         id: msg.id ?? `${msg.role ?? msg.sender ?? 'unknown'}-${msg.timestamp ?? Date.now()}-${Math.random()}`,
         sender: msg.sender ?? (msg.role === 'assistant' ? 'ai' : msg.role === 'user' ? 'user' : 'user'),
@@ -136,8 +122,26 @@ export const useChatHistory = () => {
             : msg.created_at 
               ? new Date(msg.created_at)
               : new Date()
+      });
+
+      // Normalize chats - ensure messages is always an array
+      const normalizedChats = (Array.isArray(data.chats) ? data.chats : []).map((chat: any) => ({
+        ...chat,
+        id: chat.id ?? chat._id ?? chat.chatId,
+        chatId: chat.chatId ?? chat.id ?? chat._id,
+        messages: Array.isArray(chat.messages) ? chat.messages.map(normalizeMessage) : [],
+        createdAt: typeof chat.createdAt === "string" || typeof chat.createdAt === "number"
+          ? chat.createdAt
+          : chat.created_at || chat.updatedAt || chat.updated_at || new Date().toISOString(),
+        updatedAt: typeof chat.updatedAt === "string" || typeof chat.updatedAt === "number"
+          ? chat.updatedAt
+          : chat.updated_at || chat.createdAt || chat.created_at || new Date().toISOString(),
+        title: chat.title ?? 'New Chat',
+        userId: chat.userId ?? chat.user_id ?? userId
       }));
       
+      const normalizedMessages = (Array.isArray(data.messages) ? data.messages : []).map(normalizeMessage);
+      
       console.log('✅ Loaded', normalizedMessages.length, 'messages and', normalizedChats.length, 'chats from history');
       
       setMessages(normalizedMessages);
@@ -0,0 +1,388 @@
+/**
+ * Message Attachments for Next.js API Routes
+ *
+ * Files sent with a user message are kept so they can be shown, downloaded
+ * and given to the model again: the bytes go to a storage backend and a row
+ * in the `attachments` table links them to the message, together with the
+ * text the model was given for them.
+ *
+ * ATTACHMENT_STORAGE selects where the bytes live:
+ *   local    (default) files under ATTACHMENT_DIR (default storage/attachments)
+ *   supabase the ATTACHMENT_BUCKET bucket (default "attachments") in Supabase Storage
+ *
+ * Downloads go through /api/attachments/[attachmentId]. The URLs handed to the
+ * client are signed and expire, so they also work in <img> and <a> tags,
+ * which can't send the Authorization header.
+ */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { supabase } from "./supabase-server";
+import { generateUUID } from "./uuid-utils";
+import type { ImageInput } from "./llm-provider-server";
+import type { RawImage } from "./image-input-server";
+import { isImageType, prepareImages } from "./image-input-server";
+
+export type StorageBackendName = "local" | "supabase";
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  put(key: string, bytes: Uint8Array, mimeType: string): Promise<void>;
+  /** The stored bytes, or null if nothing is stored under the key */
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+}
+
+/** A file to attach to a message */
+export interface AttachmentInput {
+  name: string;
+  mimeType: string;
+  size: number;
+  bytes: Uint8Array;
+  /** The text the model was given for the file; unset for images */
+  extractedText?: string;
+}
+
+export interface StoredAttachment {
+  id: string;
+  message_id: string;
+  user_id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  storage_key: string;
+  extracted_text: string | null;
+  created_at: string;
+}
+
+/** An attachment as returned to the client */
+export interface AttachmentSummary {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Signed download URL */
+  url: string;
+}
+
+export const ATTACHMENT_COLUMNS = 'id, message_id, user_id, name, mime_type, size, storage_key, extracted_text, created_at';
+
+const STORAGE_BACKENDS: StorageBackendName[] = ["local", "supabase"];
+const DEFAULT_URL_TTL_SECONDS = 24 * 60 * 60;
+// Message IDs per attachments query, keeping the request URL short
+const MESSAGE_ID_BATCH_SIZE = 100;
+
+// ---------------------------------------------------------------------------
+// Storage backends
+// ---------------------------------------------------------------------------
+
+/** Files on the server's disk; only suits a single long-running server */
+export function createLocalStorageBackend(root = process.env.ATTACHMENT_DIR || "storage/attachments"): StorageBackend {
+  const baseDir = path.resolve(root);
+  const fileFor = (key: string) => {
+    const file = path.resolve(baseDir, key);
+    if (!file.startsWith(baseDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    name: "local",
+    async put(key, bytes) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, bytes);
+    },
+    async get(key) {
+      try {
+        return new Uint8Array(await fs.readFile(fileFor(key)));
+      } catch (error: any) {
+        if (error.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    }
+  };
+}
+
+/** Objects in a Supabase Storage bucket (create it as a private bucket) */
+export function createSupabaseStorageBackend(bucket = process.env.ATTACHMENT_BUCKET || "attachments"): StorageBackend {
+  const storage = () => (supabase as any).storage.from(bucket);
+
+  return {
+    name: "supabase",
+    async put(key, bytes, mimeType) {
+      const { error } = await storage().upload(key, bytes, { contentType: mimeType, upsert: true });
+      if (error) throw error;
+    },
+    async get(key) {
+      const { data, error } = await storage().download(key);
+      if (error) {
+        if (error.statusCode === "404" || error.status === 404 || /not found/i.test(error.message)) return null;
+        throw error;
+      }
+      return new Uint8Array(await data.arrayBuffer());
+    },
+    async delete(key) {
+      const { error } = await storage().remove([key]);
+      if (error) throw error;
+    }
+  };
+}
+
+let activeBackend: StorageBackend | null = null;
+
+/** The configured storage backend (created once per server instance) */
+export function getStorageBackend(): StorageBackend {
+  if (activeBackend) {
+    return activeBackend;
+  }
+
+  const configured = (process.env.ATTACHMENT_STORAGE || "local").toLowerCase().trim();
+  if (!STORAGE_BACKENDS.includes(configured as StorageBackendName)) {
+    console.warn(`⚠️ [ATTACHMENTS] Unknown ATTACHMENT_STORAGE "${configured}", using local`);
+  }
+
+  activeBackend = configured === "supabase" ? createSupabaseStorageBackend() : createLocalStorageBackend();
+  console.log(`🗄️ [ATTACHMENTS] Attachment storage: ${activeBackend.name}`);
+  return activeBackend;
+}
+
+// ---------------------------------------------------------------------------
+// Signed download URLs
+// ---------------------------------------------------------------------------
+
+function urlSecret(): string {
+  const secret = process.env.ATTACHMENT_URL_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error("ATTACHMENT_URL_SECRET or SUPABASE_SERVICE_ROLE_KEY is required to sign attachment URLs");
+  }
+  return secret;
+}
+
+function signature(path: string, expires: number): string {
+  return crypto.createHmac("sha256", urlSecret()).update(`${path}.${expires}`).digest("base64url");
+}
+
+/**
+ * Sign a download path (e.g. `/api/attachments/<id>`) so it can be opened
+ * without the Authorization header. Valid for ATTACHMENT_URL_TTL_SECONDS
+ * (default one day).
+ */
+export function signDownloadPath(path: string): string {
+  const ttl = Number(process.env.ATTACHMENT_URL_TTL_SECONDS) > 0 ? Number(process.env.ATTACHMENT_URL_TTL_SECONDS) : DEFAULT_URL_TTL_SECONDS;
+  const expires = Math.floor(Date.now() / 1000) + ttl;
+  return `${path}?expires=${expires}&signature=${signature(path, expires)}`;
+}
+
+/** Whether `expires` and `signature` from a signed URL are valid for the path */
+export function verifyDownloadSignature(path: string, expires: string | null, signed: string | null): boolean {
+  const expiresAt = Number(expires);
+  if (!signed || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+  const expected = Buffer.from(signature(path, expiresAt));
+  const actual = Buffer.from(signed);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function signAttachmentUrl(attachmentId: string): string {
+  return signDownloadPath(`/api/attachments/${attachmentId}`);
+}
+
+export function verifyAttachmentSignature(attachmentId: string, expires: string | null, signed: string | null): boolean {
+  return verifyDownloadSignature(`/api/attachments/${attachmentId}`, expires, signed);
+}
+
+// ---------------------------------------------------------------------------
+// Attachments
+// ---------------------------------------------------------------------------
+
+export function toAttachmentSummary(attachment: StoredAttachment): AttachmentSummary {
+  return {
+    id: attachment.id,
+    name: attachment.name,
+    mimeType: attachment.mime_type,
+    size: attachment.size,
+    url: signAttachmentUrl(attachment.id)
+  };
+}
+
+/**
+ * Store files and link them to a user message. Files are uploaded first, so
+ * a failed upload leaves no row behind.
+ */
+export async function saveAttachments(userId: string, messageId: string, files: AttachmentInput[]): Promise<StoredAttachment[]> {
+  if (files.length === 0) {
+    return [];
+  }
+
+  const storage = getStorageBackend();
+  const rows = await Promise.all(files.map(async file => {
+    const id = generateUUID();
+    const storageKey = `${userId}/${id}`;
+    await storage.put(storageKey, file.bytes, file.mimeType);
+    return {
+      id,
+      message_id: messageId,
+      user_id: userId,
+      name: file.name,
+      mime_type: file.mimeType,
+      size: file.size,
+      storage_key: storageKey,
+      extracted_text: file.extractedText ?? null
+    };
+  }));
+
+  const { data, error } = await (supabase as any)
+    .from('attachments')
+    .insert(rows)
+    .select(ATTACHMENT_COLUMNS);
+
+  if (error) {
+    throw error;
+  }
+
+  console.log("📎 [ATTACHMENTS] Saved", rows.length, "attachment(s) for message:", messageId);
+  return data || [];
+}
+
+/**
+ * Link another message to the same stored files, e.g. an edited copy of a
+ * user message. The rows share storage keys; nothing is uploaded again.
+ */
+export async function copyAttachments(attachments: StoredAttachment[], messageId: string): Promise<StoredAttachment[]> {
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await (supabase as any)
+    .from('attachments')
+    .insert(attachments.map(({ id, message_id, created_at, ...attachment }) => ({ ...attachment, message_id: messageId })))
+    .select(ATTACHMENT_COLUMNS);
+
+  if (error) {
+    throw error;
+  }
+  return data || [];
+}
+
+/** A message's attachments, oldest first */
+export async function loadAttachments(messageId: string): Promise<StoredAttachment[]> {
+  const grouped = await loadAttachmentsFor([messageId]);
+  return grouped.get(messageId) || [];
+}
+
+/**
+ * Attachments of several messages, grouped by message ID. Long ID lists are
+ * queried in batches; `userId` limits the rows to that user's.
+ */
+export async function loadAttachmentsFor(messageIds: string[], userId?: string): Promise<Map<string, StoredAttachment[]>> {
+  const grouped = new Map<string, StoredAttachment[]>();
+
+  for (let start = 0; start < messageIds.length; start += MESSAGE_ID_BATCH_SIZE) {
+    let query = (supabase as any)
+      .from('attachments')
+      .select(ATTACHMENT_COLUMNS)
+      .in('message_id', messageIds.slice(start, start + MESSAGE_ID_BATCH_SIZE));
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+    if (error) {
+      throw error;
+    }
+
+    for (const attachment of (data || []) as StoredAttachment[]) {
+      grouped.set(attachment.message_id, [...(grouped.get(attachment.message_id) || []), attachment]);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Add each user message's attachments (as `attachments`, with signed URLs).
+ * If they can't be loaded the messages are returned without them.
+ */
+export async function withAttachments<T extends { id: string; role: string }>(userId: string, messages: T[]): Promise<(T & { attachments?: AttachmentSummary[] })[]> {
+  const userMessageIds = messages.filter(message => message.role === 'user').map(message => message.id);
+  if (userMessageIds.length === 0) {
+    return messages;
+  }
+
+  let byMessage: Map<string, StoredAttachment[]>;
+  try {
+    byMessage = await loadAttachmentsFor(userMessageIds, userId);
+  } catch (error: any) {
+    console.error("❌ [ATTACHMENTS] Error loading attachments:", error.message);
+    return messages;
+  }
+
+  return messages.map(message => byMessage.has(message.id)
+    ? { ...message, attachments: byMessage.get(message.id)!.map(toAttachmentSummary) }
+    : message);
+}
+
+/**
+ * Load one attachment, checking it belongs to the user.
+ * Returns null if it doesn't exist or isn't theirs.
+ */
+export async function getAttachment(attachmentId: string, userId?: string): Promise<StoredAttachment | null> {
+  let query = (supabase as any)
+    .from('attachments')
+    .select(ATTACHMENT_COLUMNS)
+    .eq('id', attachmentId);
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+export async function readAttachment(attachment: StoredAttachment): Promise<Uint8Array | null> {
+  return getStorageBackend().get(attachment.storage_key);
+}
+
+/**
+ * What the model was given for a message's attachments, to answer it again
+ * (regenerate, edit): the images, read back from storage and prepared
+ * again, and the text of the documents. Images that can no longer be read
+ * are left out.
+ */
+export async function replayAttachments(attachments: StoredAttachment[]): Promise<{ images: ImageInput[]; fileContent: string }> {
+  const images: RawImage[] = [];
+  for (const attachment of attachments.filter(item => isImageType(item.mime_type))) {
+    try {
+      const bytes = await readAttachment(attachment);
+      if (bytes) {
+        images.push({ name: attachment.name, mimeType: attachment.mime_type, bytes });
+      } else {
+        console.warn("⚠️ [ATTACHMENTS] Stored image is missing:", attachment.storage_key);
+      }
+    } catch (error: any) {
+      console.error("❌ [ATTACHMENTS] Could not read stored image:", attachment.storage_key, error.message);
+    }
+  }
+
+  const fileContent = attachments
+    .map(attachment => attachment.extracted_text)
+    .filter((text): text is string => !!text)
+    .join("\n\n");
+
+  const prepared = await prepareImages(images);
+  if (prepared.error) {
+    console.error("❌ [ATTACHMENTS] Could not prepare stored images:", prepared.error);
+  }
+  return { images: prepared.images, fileContent };
+}
@@ -0,0 +1,314 @@
+/**
+ * Tool Result Cache for Next.js API Routes
+ *
+ * One cache service for every tool: each tool gets a named cache with its own
+ * TTL and entry limit, least recently used entries are evicted first, and
+ * hits, misses and evictions are counted per cache.
+ *
+ * TOOL_CACHE_BACKEND selects where entries live:
+ *   memory   (default) per server instance, lost on a cold start
+ *   supabase the `tool_cache` table, shared by every instance
+ * A failing backend never fails the tool: reads count as misses and writes
+ * are dropped.
+ */
+
+import { supabase } from "./supabase-server";
+
+export type CacheBackendName = "memory" | "supabase";
+
+export interface CacheBackend {
+  name: CacheBackendName;
+  /** The live (unexpired) value, refreshing its recency */
+  get(namespace: string, key: string): Promise<unknown | undefined>;
+  /** Store a value; returns how many entries were evicted to make room */
+  set(namespace: string, key: string, value: unknown, ttlMs: number, maxEntries: number): Promise<number>;
+  delete(namespace: string, key: string): Promise<void>;
+  clear(namespace: string): Promise<void>;
+  /** Entries currently stored, if the backend can tell cheaply */
+  size(namespace: string): number | undefined;
+}
+
+export interface CacheOptions {
+  /** Cache name, e.g. "weather"; also the key prefix in shared backends */
+  namespace: string;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+export interface CacheStats {
+  namespace: string;
+  backend: CacheBackendName;
+  ttlMs: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+  sets: number;
+  evictions: number;
+  errors: number;
+  size?: number;
+}
+
+export interface ToolCache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): CacheStats;
+}
+
+const CACHE_BACKENDS: CacheBackendName[] = ["memory", "supabase"];
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+/**
+ * Map-based LRU: a Map iterates in insertion order, so re-inserting an entry
+ * on every read keeps the least recently used one first.
+ */
+export function createMemoryCacheBackend(): CacheBackend {
+  const stores = new Map<string, Map<string, { value: unknown; expiresAt: number }>>();
+
+  const storeFor = (namespace: string) => {
+    let store = stores.get(namespace);
+    if (!store) {
+      store = new Map();
+      stores.set(namespace, store);
+    }
+    return store;
+  };
+
+  return {
+    name: "memory",
+    async get(namespace, key) {
+      const store = storeFor(namespace);
+      const entry = store.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      store.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      store.set(key, entry);
+      return entry.value;
+    },
+    async set(namespace, key, value, ttlMs, maxEntries) {
+      const store = storeFor(namespace);
+      store.delete(key);
+      store.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+      let evicted = 0;
+      // Expired entries go first, then the least recently used
+      const now = Date.now();
+      for (const [storedKey, entry] of Array.from(store.entries())) {
+        if (entry.expiresAt <= now) {
+          store.delete(storedKey);
+          evicted++;
+        }
+      }
+      while (store.size > maxEntries) {
+        const oldest = store.keys().next().value;
+        if (oldest === undefined) break;
+        store.delete(oldest);
+        evicted++;
+      }
+      return evicted;
+    },
+    async delete(namespace, key) {
+      storeFor(namespace).delete(key);
+    },
+    async clear(namespace) {
+      stores.delete(namespace);
+    },
+    size(namespace) {
+      return stores.get(namespace)?.size ?? 0;
+    }
+  };
+}
+
+/**
+ * Rows in the `tool_cache` table. Reads bump `accessed_at`, and every write
+ * deletes expired rows and the least recently used rows over the limit.
+ */
+export function createSupabaseCacheBackend(): CacheBackend {
+  const table = () => (supabase as any).from("tool_cache");
+
+  return {
+    name: "supabase",
+    async get(namespace, key) {
+      const { data, error } = await table()
+        .select("value")
+        .eq("namespace", namespace)
+        .eq("key", key)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return undefined;
+
+      // Recency only matters for eviction, so don't wait for it
+      table()
+        .update({ accessed_at: new Date().toISOString() })
+        .eq("namespace", namespace)
+        .eq("key", key)
+        .then(({ error: touchError }: any) => {
+          if (touchError) console.warn("⚠️ [CACHE] Could not update accessed_at:", touchError.message);
+        });
+
+      return data.value;
+    },
+    async set(namespace, key, value, ttlMs, maxEntries) {
+      const now = new Date();
+      const { error } = await table().upsert({
+        namespace,
+        key,
+        value,
+        expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+        accessed_at: now.toISOString()
+      }, { onConflict: "namespace,key" });
+      if (error) throw error;
+
+      const { data: expired, error: expiredError } = await table()
+        .delete()
+        .eq("namespace", namespace)
+        .lte("expires_at", now.toISOString())
+        .select("key");
+      if (expiredError) throw expiredError;
+
+      const { data: overflow, error: overflowError } = await table()
+        .select("key")
+        .eq("namespace", namespace)
+        .order("accessed_at", { ascending: false })
+        .range(maxEntries, maxEntries + 999);
+      if (overflowError) throw overflowError;
+
+      if (overflow?.length) {
+        const { error: evictError } = await table()
+          .delete()
+          .eq("namespace", namespace)
+          .in("key", overflow.map((row: { key: string }) => row.key));
+        if (evictError) throw evictError;
+      }
+
+      return (expired?.length ?? 0) + (overflow?.length ?? 0);
+    },
+    async delete(namespace, key) {
+      const { error } = await table().delete().eq("namespace", namespace).eq("key", key);
+      if (error) throw error;
+    },
+    async clear(namespace) {
+      const { error } = await table().delete().eq("namespace", namespace);
+      if (error) throw error;
+    },
+    size() {
+      return undefined;
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Caches
+// ---------------------------------------------------------------------------
+
+let activeBackend: CacheBackend | null = null;
+const caches = new Map<string, ToolCache<any>>();
+
+/** The configured backend (created once per server instance) */
+export function getCacheBackend(): CacheBackend {
+  if (activeBackend) {
+    return activeBackend;
+  }
+
+  const configured = (process.env.TOOL_CACHE_BACKEND || "memory").toLowerCase().trim();
+  if (!CACHE_BACKENDS.includes(configured as CacheBackendName)) {
+    console.warn(`⚠️ [CACHE] Unknown TOOL_CACHE_BACKEND "${configured}", using memory`);
+  }
+
+  activeBackend = configured === "supabase" ? createSupabaseCacheBackend() : createMemoryCacheBackend();
+  console.log(`🗄️ [CACHE] Tool cache backend: ${activeBackend.name}`);
+  return activeBackend;
+}
+
+/**
+ * Create a named cache. Creating a namespace again returns the existing
+ * cache, so modules re-evaluated by hot reload keep their entries and stats.
+ * Pass `backend` to use a specific backend instead of the configured one.
+ */
+export function createCache<T>({ namespace, ttlMs, maxEntries }: CacheOptions, backend?: CacheBackend): ToolCache<T> {
+  const existing = caches.get(namespace);
+  if (existing && !backend) {
+    return existing;
+  }
+
+  const counters = { hits: 0, misses: 0, sets: 0, evictions: 0, errors: 0 };
+  const store = () => backend ?? getCacheBackend();
+
+  const cache: ToolCache<T> = {
+    async get(key) {
+      try {
+        const value = await store().get(namespace, key);
+        if (value === undefined) {
+          counters.misses++;
+          return undefined;
+        }
+        counters.hits++;
+        return value as T;
+      } catch (error: any) {
+        counters.errors++;
+        counters.misses++;
+        console.error(`❌ [CACHE] ${namespace} read failed:`, error.message);
+        return undefined;
+      }
+    },
+    async set(key, value, ttl = ttlMs) {
+      try {
+        counters.evictions += await store().set(namespace, key, value, ttl, maxEntries);
+        counters.sets++;
+      } catch (error: any) {
+        counters.errors++;
+        console.error(`❌ [CACHE] ${namespace} write failed:`, error.message);
+      }
+    },
+    async delete(key) {
+      try {
+        await store().delete(namespace, key);
+      } catch (error: any) {
+        counters.errors++;
+        console.error(`❌ [CACHE] ${namespace} delete failed:`, error.message);
+      }
+    },
+    async clear() {
+      try {
+        await store().clear(namespace);
+      } catch (error: any) {
+        counters.errors++;
+        console.error(`❌ [CACHE] ${namespace} clear failed:`, error.message);
+      }
+    },
+    stats() {
+      const lookups = counters.hits + counters.misses;
+      return {
+        namespace,
+        backend: store().name,
+        ttlMs,
+        maxEntries,
+        ...counters,
+        hitRate: lookups > 0 ? counters.hits / lookups : 0,
+        size: store().size(namespace)
+      };
+    }
+  };
+
+  if (!backend) {
+    caches.set(namespace, cache);
+  }
+  return cache;
+}
+
+/** Statistics for every cache created so far (counts since the server started) */
+export function getCacheStats(): CacheStats[] {
+  return Array.from(caches.values()).map(cache => cache.stats());
+}
@@ -0,0 +1,133 @@
+/**
+ * Conversation Context Builder for Next.js API Routes
+ * Turns stored messages into role-structured history for the LLM provider
+ */
+
+import { loadChatMessages, activeBranch, pathTo } from "./message-tree-server";
+import { getLLMProvider } from "./llm-provider-server";
+import type { ChatTurn } from "./llm-provider-server";
+import { loadAttachmentsFor } from "./attachments-server";
+import type { StoredAttachment } from "./attachments-server";
+
+// Upper bound on rows sent as context, independent of the token budget
+export const MAX_CONTEXT_MESSAGES = 50;
+const DEFAULT_TOKEN_BUDGET = 4000;
+
+export interface StoredMessage {
+  role: string;
+  content: string;
+  created_at: string;
+}
+
+export interface ChatContextSource {
+  id: string;
+  summary?: string | null;
+  summarized_until?: string | null;
+}
+
+export function getContextTokenBudget(): number {
+  const configured = Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET);
+  return configured > 0 ? configured : DEFAULT_TOKEN_BUDGET;
+}
+
+/**
+ * Index of the first message in the context window: the most recent messages
+ * that fit in the token budget (and the row cap), counted by the active
+ * provider. The newest message is always in the window, even if it alone
+ * exceeds the budget.
+ */
+export async function contextWindowStart(messages: StoredMessage[], tokenBudget: number): Promise<number> {
+  const provider = getLLMProvider();
+  const floor = Math.max(0, messages.length - MAX_CONTEXT_MESSAGES);
+  let usedTokens = 0;
+  let start = messages.length;
+
+  while (start > floor) {
+    const tokens = await provider.countTokens(messages[start - 1].content);
+    if (start < messages.length && usedTokens + tokens > tokenBudget) {
+      break;
+    }
+    usedTokens += tokens;
+    start--;
+  }
+
+  return start;
+}
+
+export function toChatTurns(messages: StoredMessage[]): ChatTurn[] {
+  return messages
+    .filter(msg => typeof msg.content === 'string' && msg.content.trim() !== '')
+    .map(msg => ({
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: msg.content
+    }));
+}
+
+/**
+ * Messages of a chat that are not yet folded into its summary, oldest first.
+ * Follows the active branch, or the path ending at `leafId` if given (used
+ * when answering an edited or regenerated turn).
+ */
+export async function loadUnsummarizedMessages(
+  chat: ChatContextSource,
+  limit: number,
+  leafId?: string | null
+): Promise<StoredMessage[]> {
+  const messages = await loadChatMessages(chat.id);
+  const branch = leafId !== undefined
+    ? (leafId ? pathTo(messages, leafId) : [])
+    : activeBranch(messages);
+
+  const unsummarized = branch
+    .filter(msg => !chat.summarized_until || msg.created_at > chat.summarized_until)
+    .slice(-limit);
+
+  return withAttachedText(unsummarized);
+}
+
+/**
+ * Add the text the model was given for each user message's attachments to
+ * its content, as it was in the original prompt, so files stay in context
+ * (and count towards the token budget) in later turns. Images are mentioned
+ * by name only.
+ */
+async function withAttachedText<T extends StoredMessage & { id: string }>(messages: T[]): Promise<T[]> {
+  let attachments = new Map<string, StoredAttachment[]>();
+  try {
+    attachments = await loadAttachmentsFor(messages.filter(msg => msg.role === 'user').map(msg => msg.id));
+  } catch (error: any) {
+    console.error("❌ [CONTEXT] Error loading attachments:", error.message || error);
+  }
+
+  return messages.map(msg => {
+    const files = attachments.get(msg.id);
+    if (!files) {
+      return msg;
+    }
+    const fileContent = files.map(file => file.extracted_text || `[Image: ${file.name}]`).join('\n\n');
+    return { ...msg, content: `${msg.content}\n\nAttached files:\n${fileContent}` };
+  });
+}
+
+/**
+ * Build the history for a chat: its running summary (if any) followed by the
+ * latest turns that fit in the token budget. `leafId` picks the branch, as in
+ * loadUnsummarizedMessages (null means the history is empty apart from the summary).
+ */
+export async function buildConversationHistory(
+  chat: ChatContextSource,
+  { leafId, tokenBudget = getContextTokenBudget() }: { leafId?: string | null; tokenBudget?: number } = {}
+): Promise<ChatTurn[]> {
+  const messages = await loadUnsummarizedMessages(chat, MAX_CONTEXT_MESSAGES, leafId);
+  const recent = messages.slice(await contextWindowStart(messages, tokenBudget));
+  const turns = toChatTurns(recent);
+
+  if (chat.summary) {
+    turns.unshift({
+      role: 'user',
+      content: `Summary of our earlier conversation:\n${chat.summary}`
+    });
+  }
+
+  return turns;
+}
@@ -0,0 +1,335 @@
+/**
+ * Chat Completion Streaming for Next.js API Routes
+ * Shared by the chat, regenerate and edit routes: builds the system instruction,
+ * runs the tool loop and streams the reply in the AI SDK data stream format.
+ *
+ * When the page reader tool is enabled, links in the user's message are read
+ * before the model is called, and PAGE_FETCH_SEARCH_RESULTS (default 0) top
+ * results of each web search are read along with it.
+ *
+ * In chats that opted into the user's documents, the document library is
+ * searched for the message first, and the model may search it again.
+ */
+
+import { getLLMProvider } from "./llm-provider-server";
+import type { ChatTurn, ImageInput, LLMRequest, StreamEvent, ToolCall, ToolResult, ToolStep } from "./llm-provider-server";
+import { retrieveRelevantMemories, formatMemoriesForPrompt } from "./user-memory-server";
+import type { UserMemory } from "./user-memory-server";
+import { getUserSettings, buildSystemInstruction, DEFAULT_USER_SETTINGS } from "./user-settings-server";
+import { MAX_TOOL_STEPS, executeToolCall, getEnabledTools, toToolDeclarations } from "./tools";
+import type { Source } from "./tools";
+import { pageFetchTool } from "./tools/page-fetch";
+import { documentSearchTool } from "./tools/document-search";
+import { extractUrls } from "./page-fetch-server";
+import { generateFollowUps } from "./follow-ups-server";
+import type { ReplyDetails } from "./message-tree-server";
+import type { GeoCoordinates } from "./weather-server";
+
+export interface ChatStreamOptions<Saved> {
+  userId: string;
+  /** The user message being answered */
+  message: string;
+  /** Images attached to the message, already normalised for the model */
+  images?: ImageInput[];
+  /** Text of the files attached to the message, added to the prompt after it */
+  fileContent?: string;
+  /** Earlier turns, oldest first */
+  history: ChatTurn[];
+  /** The user's browser location, if they shared it; tools use it for "here" */
+  userLocation?: GeoCoordinates;
+  /** Answer from the user's document library (the chat opted in) */
+  useDocuments?: boolean;
+  /** The incoming request's signal; aborting it stops generation */
+  signal?: AbortSignal;
+  /**
+   * Persist the (possibly partial) reply once streaming ends; `details.status`
+   * is "stopped" if the user cancelled and `details.sources` lists the search
+   * results the reply can cite. A non-null return value is sent to the client
+   * as a `2:` data frame.
+   */
+  save: (aiResponse: string, details: ReplyDetails) => Promise<Saved | null>;
+  /**
+   * Store the suggested next prompts under a finished reply. They are
+   * generated after `save`, so the reply is kept even if this never runs.
+   */
+  saveFollowUps?: (saved: Saved, followUps: string[]) => Promise<void>;
+}
+
+export interface ChatStreamCompletion<Saved> {
+  aiResponse: string;
+  saved: Saved | null;
+}
+
+export type ChatStreamResult<Saved> =
+  | { success: true; response: Response; finished: Promise<ChatStreamCompletion<Saved>> }
+  | { success: false; error?: string };
+
+/**
+ * Start streaming a reply. The first provider call happens before this
+ * resolves, so callers can still answer with an error status if it fails.
+ *
+ * Response frames:
+ *   0:"text delta"  9:{tool call}  a:{tool result}  h:{source}  8:[{ type: "follow_ups", followUps }]
+ *   3:"error message"  2:[saved data]  d:{finish info}
+ * Follow-ups (`8:`) come after `2:`, once the reply is saved.
+ */
+export async function createChatStream<Saved>({
+  userId,
+  message,
+  images,
+  fileContent,
+  history,
+  userLocation,
+  useDocuments,
+  signal,
+  save,
+  saveFollowUps
+}: ChatStreamOptions<Saved>): Promise<ChatStreamResult<Saved>> {
+  // Load persona and custom instructions
+  let settings = DEFAULT_USER_SETTINGS;
+  try {
+    settings = await getUserSettings(userId);
+  } catch (settingsError) {
+    console.error("❌ [CHAT] Error loading user settings:", settingsError);
+  }
+
+  // Retrieve long-term memories relevant to this message
+  let memories: UserMemory[] = [];
+  try {
+    memories = await retrieveRelevantMemories(userId, message);
+  } catch (memoryError) {
+    console.error("❌ [CHAT] Error retrieving user memories:", memoryError);
+  }
+
+  // Stopping (client disconnect or aborted request) cancels the provider call
+  const abortController = new AbortController();
+  signal?.addEventListener("abort", () => abortController.abort(), { once: true });
+
+  // The model decides when to call tools; each round's results are fed back until it answers
+  const provider = getLLMProvider();
+  const system = buildSystemInstruction(
+    settings,
+    memories.length > 0 ? formatMemoriesForPrompt(memories) : undefined
+  );
+  const tools = getEnabledTools(settings.disabledTools)
+    .filter(tool => useDocuments || tool.name !== documentSearchTool.name);
+  const baseRequest: LLMRequest = {
+    prompt: fileContent ? `${message}\n\nAttached files:\n${fileContent}` : message,
+    images: images?.length ? images : undefined,
+    history,
+    system,
+    tools: tools.length > 0 ? toToolDeclarations(tools) : undefined,
+    signal: abortController.signal
+  };
+
+  // Numbered across all tool rounds so [n] citations stay unique
+  const sources: Source[] = [];
+  const toolContext = { userId, settings, userLocation, sources };
+  const toolSteps: ToolStep[] = [];
+
+  // Page reads the model did not ask for are recorded as fetch_page calls of their own
+  const canReadPages = tools.some(tool => tool.name === pageFetchTool.name);
+  const readUrls = new Set<string>();
+  const readPages = async (urls: string[]): Promise<ToolStep> => {
+    const calls: ToolCall[] = urls.map(url => {
+      readUrls.add(url);
+      return { id: `read-page-${readUrls.size}`, name: pageFetchTool.name, args: { url } };
+    });
+    const results = await Promise.all(calls.map(call => executeToolCall(call, tools, toolContext)));
+    return { calls, results };
+  };
+  const searchResultsToRead = canReadPages ? Math.max(0, Number(process.env.PAGE_FETCH_SEARCH_RESULTS) || 0) : 0;
+
+  // Passages from the user's documents come first, so their citations are [1], [2]...
+  if (message.trim() && tools.some(tool => tool.name === documentSearchTool.name)) {
+    console.log("📚 [CHAT] Searching the user's documents");
+    const call: ToolCall = { id: "search-documents-0", name: documentSearchTool.name, args: { query: message } };
+    toolSteps.push({ calls: [call], results: [await executeToolCall(call, tools, toolContext)] });
+  }
+
+  const linkedUrls = canReadPages ? extractUrls(message) : [];
+  if (linkedUrls.length > 0) {
+    console.log("📄 [CHAT] Reading linked pages:", linkedUrls);
+    toolSteps.push(await readPages(linkedUrls));
+  }
+  const prefetchedSteps = toolSteps.length;
+
+  const result = await provider.stream({
+    ...baseRequest,
+    toolSteps: toolSteps.length > 0 ? [...toolSteps] : undefined
+  });
+
+  if (!result.success || !result.stream) {
+    console.error(`❌ [CHAT] ${provider.name} API error:`, result.error);
+    return { success: false, error: result.error };
+  }
+
+  const firstStream = result.stream;
+  const encoder = new TextEncoder();
+  let clientDisconnected = false;
+  const stopped = () => clientDisconnected || abortController.signal.aborted;
+  let markFinished: (completion: ChatStreamCompletion<Saved>) => void = () => {};
+  const finished = new Promise<ChatStreamCompletion<Saved>>(resolve => {
+    markFinished = resolve;
+  });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (frame: string) => {
+        if (clientDisconnected) return;
+        try {
+          controller.enqueue(encoder.encode(frame));
+        } catch {
+          // Controller already closed by the runtime
+          clientDisconnected = true;
+        }
+      };
+
+      const sendCalls = (calls: ToolCall[]) => {
+        for (const call of calls) {
+          send(`9:${JSON.stringify({ toolCallId: call.id, toolName: call.name, args: call.args })}\n`);
+        }
+      };
+      let sentSources = 0;
+      const sendResults = (results: ToolResult[]) => {
+        for (const toolResult of results) {
+          send(`a:${JSON.stringify({ toolCallId: toolResult.callId, result: toolResult.data ?? toolResult.result })}\n`);
+        }
+        for (const source of sources.slice(sentSources)) {
+          send(`h:${JSON.stringify({ sourceType: "url", id: String(source.number), ...source })}\n`);
+        }
+        sentSources = sources.length;
+      };
+
+      let aiResponse = "";
+      let finishReason = "stop";
+
+      try {
+        for (const step of toolSteps) {
+          sendCalls(step.calls);
+          sendResults(step.results);
+        }
+
+        let events: AsyncIterable<StreamEvent> = firstStream;
+
+        while (true) {
+          const calls: ToolCall[] = [];
+
+          for await (const event of events) {
+            if (event.type === "text") {
+              aiResponse += event.text;
+              send(`0:${JSON.stringify(event.text)}\n`);
+            } else {
+              calls.push(event.call);
+              sendCalls([event.call]);
+            }
+
+            if (stopped()) {
+              break;
+            }
+          }
+
+          if (calls.length === 0 || stopped()) {
+            break;
+          }
+
+          const results = await Promise.all(calls.map(call => executeToolCall(call, tools, toolContext)));
+          sendResults(results);
+
+          // Read the top search results so the answer is not limited to snippets
+          const resultUrls = results
+            .flatMap(toolResult => toolResult.name === "web_search" && toolResult.data?.success
+              ? toolResult.data.results.slice(0, searchResultsToRead).map((item: { link: string }) => item.link)
+              : [])
+            .filter((url: string) => !readUrls.has(url));
+          if (resultUrls.length > 0 && !stopped()) {
+            const reads = await readPages(resultUrls);
+            sendCalls(reads.calls);
+            sendResults(reads.results);
+            calls.push(...reads.calls);
+            results.push(...reads.results);
+          }
+          toolSteps.push({ calls, results });
+
+          // After the last allowed round the model must answer without more calls
+          const next = await provider.stream({
+            ...baseRequest,
+            toolSteps,
+            toolChoice: toolSteps.length - prefetchedSteps < MAX_TOOL_STEPS ? "auto" : "none"
+          });
+
+          if (!next.success || !next.stream) {
+            throw new Error(next.error || "Failed to continue after tool call");
+          }
+          events = next.stream;
+        }
+      } catch (streamError: any) {
+        // An aborted provider call throws; that is a stop, not an error
+        if (!stopped()) {
+          console.error("❌ [CHAT] Stream interrupted:", streamError);
+          finishReason = "error";
+          send(`3:${JSON.stringify(streamError?.message || "Response stream interrupted")}\n`);
+        }
+      }
+
+      if (stopped()) {
+        console.warn("⚠️ [CHAT] Generation stopped by the client");
+        finishReason = "stopped";
+        abortController.abort();
+      }
+
+      if (aiResponse) {
+        console.log("✅ [CHAT] Generated response:", aiResponse.substring(0, 50) + "...");
+      } else if (finishReason === "stop") {
+        finishReason = "error";
+        send(`3:${JSON.stringify("Empty response from AI")}\n`);
+      }
+
+      // Persist the full (or partial, if interrupted) reply once streaming ends
+      const saved = await save(aiResponse, {
+        status: finishReason === "stopped" ? "stopped" : "complete",
+        sources
+      });
+      markFinished({ aiResponse, saved });
+
+      if (saved) {
+        send(`2:${JSON.stringify([saved])}\n`);
+      }
+
+      // Suggest what to ask next, only under a finished answer
+      if (finishReason === "stop" && !stopped()) {
+        const followUps = await generateFollowUps(message, aiResponse, abortController.signal);
+        if (followUps.length > 0 && !stopped()) {
+          send(`8:${JSON.stringify([{ type: "follow_ups", followUps }])}\n`);
+          if (saved && saveFollowUps) {
+            try {
+              await saveFollowUps(saved, followUps);
+            } catch (dbError: any) {
+              console.error("❌ [CHAT] Database error saving follow-ups:", dbError);
+            }
+          }
+        }
+      }
+
+      send(`d:${JSON.stringify({ finishReason })}\n`);
+
+      if (!clientDisconnected) {
+        controller.close();
+      }
+    },
+    cancel() {
+      clientDisconnected = true;
+      abortController.abort();
+    }
+  });
+
+  const response = new Response(stream, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+
+  return { success: true, response, finished };
+}
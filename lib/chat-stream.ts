@@ -0,0 +1,104 @@
+/**
+ * Client-side reader for chat responses (AI SDK data stream format):
+ *   0:"text delta"  9:{tool call}  a:{tool result}  h:{source}  8:[annotations]  3:"error message"  2:[data]  d:{finish info}
+ */
+
+export interface ChatStreamHandlers {
+  /** Called with the full text so far whenever new text arrives */
+  onText?: (text: string) => void
+  onToolCall?: (call: { toolCallId: string; toolName: string; args: any }) => void
+  onToolResult?: (result: { toolCallId: string; result: any }) => void
+  /** Called with all sources so far whenever the reply gains a citable source */
+  onSources?: (sources: ChatSource[]) => void
+  /** Called with the suggested follow-up prompts (a `follow_ups` annotation) */
+  onFollowUps?: (followUps: string[]) => void
+  /** Called for each item of a `2:` data frame, e.g. the saved message IDs */
+  onData?: (data: any) => void
+}
+
+/** A search result the reply cites as [number] */
+export interface ChatSource {
+  number: number
+  title: string
+  url: string
+  snippet?: string
+}
+
+export interface ChatStreamOutcome {
+  text: string
+  error: string | null
+  /** The request was aborted (the user pressed Stop); `text` is the partial reply */
+  stopped: boolean
+}
+
+export async function readChatStream(response: Response, handlers: ChatStreamHandlers = {}): Promise<ChatStreamOutcome> {
+  const reader = response.body?.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+  let error: string | null = null
+  let buffered = ''
+  const sources: ChatSource[] = []
+
+  if (!reader) {
+    return { text, error, stopped: false }
+  }
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>
+    try {
+      chunk = await reader.read()
+    } catch (e) {
+      if ((e as any)?.name === 'AbortError') {
+        return { text, error, stopped: true }
+      }
+      throw e
+    }
+
+    const { done, value } = chunk
+    if (done) break
+
+    // Frames can be split across chunks - keep the trailing partial line
+    buffered += decoder.decode(value, { stream: true })
+    const lines = buffered.split('\n')
+    buffered = lines.pop() ?? ''
+
+    let receivedText = false
+    for (const line of lines) {
+      try {
+        if (line.startsWith('0:')) {
+          // Text delta - append to what we have so far
+          text += JSON.parse(line.slice(2))
+          receivedText = true
+        } else if (line.startsWith('9:')) {
+          handlers.onToolCall?.(JSON.parse(line.slice(2)))
+        } else if (line.startsWith('a:')) {
+          handlers.onToolResult?.(JSON.parse(line.slice(2)))
+        } else if (line.startsWith('h:')) {
+          const { number, title, url, snippet } = JSON.parse(line.slice(2))
+          sources.push({ number, title, url, snippet })
+          handlers.onSources?.([...sources])
+        } else if (line.startsWith('8:')) {
+          for (const annotation of JSON.parse(line.slice(2))) {
+            if (annotation?.type === 'follow_ups' && Array.isArray(annotation.followUps)) {
+              handlers.onFollowUps?.(annotation.followUps)
+            }
+          }
+        } else if (line.startsWith('2:')) {
+          for (const item of JSON.parse(line.slice(2))) {
+            handlers.onData?.(item)
+          }
+        } else if (line.startsWith('3:')) {
+          error = JSON.parse(line.slice(2))
+        }
+      } catch (e) {
+        // Ignore parse errors
+      }
+    }
+
+    if (receivedText) {
+      handlers.onText?.(text)
+    }
+  }
+
+  return { text, error, stopped: false }
+}
@@ -0,0 +1,90 @@
+/**
+ * Rolling Conversation Summaries for Next.js API Routes
+ *
+ * Turns that fall out of the context window are folded into `chats.summary`
+ * so long conversations stay coherent. Runs in the background after each exchange.
+ */
+
+import { supabase } from "./supabase-server";
+import { getLLMProvider } from "./llm-provider-server";
+import {
+  contextWindowStart,
+  getContextTokenBudget,
+  loadUnsummarizedMessages,
+  type ChatContextSource,
+  type StoredMessage
+} from "./chat-context-server";
+
+// Wait until at least this many messages have left the window before summarizing
+const MIN_MESSAGES_TO_SUMMARIZE = 4;
+// Upper bound on messages folded into the summary in one pass
+const MAX_MESSAGES_PER_PASS = 200;
+
+function buildSummaryPrompt(currentSummary: string | null | undefined, messages: StoredMessage[]): string {
+  const transcript = messages
+    .map(msg => `${msg.role === 'assistant' ? 'Assistant' : 'User'}: ${msg.content}`)
+    .join('\n');
+
+  return [
+    "You maintain a running summary of a conversation between a user and Rovoxa, an AI assistant.",
+    "Update the summary with the new messages below. Keep names, facts, preferences, decisions and open questions.",
+    "Write at most 250 words of plain prose and reply with the summary only.",
+    "",
+    "Current summary:",
+    currentSummary || "(none yet)",
+    "",
+    "New messages:",
+    transcript
+  ].join('\n');
+}
+
+/**
+ * Fold messages that have left the context window into the chat's summary.
+ * Errors are logged and swallowed - a stale summary is never fatal.
+ */
+export async function updateChatSummary(chatId: string): Promise<void> {
+  try {
+    const { data: chat, error: chatError } = await (supabase as any)
+      .from('chats')
+      .select('id, summary, summarized_until')
+      .eq('id', chatId)
+      .single();
+
+    if (chatError || !chat) {
+      throw chatError || new Error("Chat not found");
+    }
+
+    const messages = await loadUnsummarizedMessages(chat as ChatContextSource, MAX_MESSAGES_PER_PASS);
+    const outsideWindow = messages.slice(0, await contextWindowStart(messages, getContextTokenBudget()));
+
+    if (outsideWindow.length < MIN_MESSAGES_TO_SUMMARIZE) {
+      return;
+    }
+
+    console.log("📝 [SUMMARY] Summarizing", outsideWindow.length, "messages for chat:", chatId);
+
+    const result = await getLLMProvider().generate({
+      prompt: buildSummaryPrompt(chat.summary, outsideWindow)
+    });
+
+    if (!result.success || !result.reply?.trim()) {
+      throw new Error(result.error || "Empty summary from AI");
+    }
+
+    const { error: updateError } = await (supabase as any)
+      .from('chats')
+      .update({
+        summary: result.reply.trim(),
+        summarized_until: outsideWindow[outsideWindow.length - 1].created_at
+      })
+      .eq('id', chatId);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    console.log("✅ [SUMMARY] Chat summary updated:", chatId);
+  } catch (error: any) {
+    console.error("❌ [SUMMARY] Failed to update chat summary:", error.message || error);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Chat Titles for Next.js API Routes
+ *
+ * New chats start as "New Chat"; after the first exchange the model names the
+ * chat in the background. Users can rename a chat at any time, and a rename
+ * is never overwritten by a generated title.
+ */
+
+import { supabase } from "./supabase-server";
+import { getLLMProvider } from "./llm-provider-server";
+
+export const DEFAULT_CHAT_TITLE = "New Chat";
+export const MAX_CHAT_TITLE_LENGTH = 80;
+// Generated titles are kept shorter than what a user may type
+const GENERATED_TITLE_LENGTH = 50;
+
+function buildTitlePrompt(message: string, aiResponse: string): string {
+  return [
+    "Write a title for the conversation below: 2 to 6 words that say what it is about.",
+    "Use the language of the user's message. Reply with the title only - no quotes, no trailing full stop.",
+    "",
+    `User: ${message.slice(0, 1000)}`,
+    `Assistant: ${aiResponse.slice(0, 1000)}`
+  ].join('\n');
+}
+
+/** Cut text to `maxLength` at a word boundary, marking the cut with "…" */
+function truncateTitle(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/** Trim and collapse whitespace; returns "" for a blank title */
+export function normalizeChatTitle(title: string, maxLength = MAX_CHAT_TITLE_LENGTH): string {
+  return truncateTitle(title.replace(/\s+/g, ' ').trim(), maxLength);
+}
+
+/** Clean up a model reply: drop a "Title:" label, quotes, markdown and a trailing full stop */
+function cleanGeneratedTitle(reply: string): string {
+  const firstLine = reply.trim().split('\n')[0] || '';
+  const title = firstLine
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/[*_#`]/g, '')
+    .replace(/^["'“‘]+|["'”’]+$/g, '')
+    .replace(/\.+$/, '');
+  return normalizeChatTitle(title, GENERATED_TITLE_LENGTH);
+}
+
+/** Used when the model gives no usable title: the start of the first message */
+export function fallbackChatTitle(message: string): string {
+  return normalizeChatTitle(message, 40) || DEFAULT_CHAT_TITLE;
+}
+
+/**
+ * Name a chat from its first exchange. Only replaces the default title, so a
+ * chat the user renamed meanwhile keeps their name. Errors are logged and
+ * swallowed - a chat called "New Chat" is never fatal.
+ */
+export async function generateChatTitle(chatId: string, message: string, aiResponse: string): Promise<void> {
+  try {
+    let title = '';
+    try {
+      const result = await getLLMProvider().generate({
+        prompt: buildTitlePrompt(message, aiResponse)
+      });
+      if (!result.success) {
+        throw new Error(result.error || "Title generation failed");
+      }
+      title = cleanGeneratedTitle(result.reply || '');
+    } catch (generateError: any) {
+      console.error("❌ [TITLE] Could not generate a title:", generateError.message || generateError);
+    }
+
+    title = title || fallbackChatTitle(message);
+
+    const { error } = await (supabase as any)
+      .from('chats')
+      .update({ title })
+      .eq('id', chatId)
+      .eq('title', DEFAULT_CHAT_TITLE);
+
+    if (error) {
+      throw error;
+    }
+
+    console.log("✅ [TITLE] Chat titled:", chatId, title);
+  } catch (error: any) {
+    console.error("❌ [TITLE] Failed to save chat title:", error.message || error);
+  }
+}
+
+/**
+ * Rename one of the user's chats. Returns the updated chat, or null if the
+ * user has no chat with this ID.
+ */
+export async function renameChat(userId: string, chatId: string, title: string): Promise<{ id: string; title: string } | null> {
+  const { data, error } = await (supabase as any)
+    .from('chats')
+    .update({ title: normalizeChatTitle(title) })
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .select('id, title')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data;
+}
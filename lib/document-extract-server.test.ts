@@ -0,0 +1,166 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { extractDocument, formatDocument, parseCsv } from "./document-extract-server";
+import type { DocumentExtraction, ExtractedDocument } from "./document-extract-server";
+
+// Written by scripts/generate-document-fixtures.js
+const FIXTURES = path.join(__dirname, "..", "fixtures", "documents");
+
+const MIME_TYPES: Record<string, string> = {
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".pdf": "application/pdf",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+};
+
+function extractFixture(name: string): Promise<DocumentExtraction> {
+  return extractDocument({
+    name,
+    mimeType: MIME_TYPES[path.extname(name)],
+    bytes: new Uint8Array(fs.readFileSync(path.join(FIXTURES, name)))
+  });
+}
+
+async function extracted(name: string): Promise<ExtractedDocument> {
+  const result = await extractFixture(name);
+  if (!result.success) {
+    throw new Error(`${name}: ${result.error}`);
+  }
+  return result;
+}
+
+describe("extractDocument", () => {
+  it("reads plain text", async () => {
+    const document = await extracted("notes.txt");
+    expect(document.kind).toBe("text");
+    expect(document.sections).toEqual([{ text: "Meeting notes\n\nThe launch moves to June." }]);
+  });
+
+  it("reads CSV as a table, honouring quotes and the guessed delimiter", async () => {
+    const document = await extracted("prices.csv");
+    expect(document.sections[0].text).toBe([
+      "| Item | Price |",
+      "| --- | --- |",
+      "| Coffee; large | 3.50 |",
+      "| Tea | 2.00 |"
+    ].join("\n"));
+  });
+
+  it("reads PDF text page by page", async () => {
+    const document = await extracted("report.pdf");
+    expect(document.sections).toEqual([
+      { label: "Page 1", text: "Quarterly Report\nRevenue grew 12% in Q3." },
+      { label: "Page 2", text: "Outlook\nHiring continues in Lisbon." }
+    ]);
+  });
+
+  it("reads Word headings, paragraphs and tables", async () => {
+    const document = await extracted("memo.docx");
+    expect(document.sections[0].text).toBe([
+      "# Team Offsite",
+      "# Agenda",
+      "We meet in Lisbon on 12 May & 13 May.",
+      "| Day | Topic |",
+      "| --- | --- |",
+      "| Monday | Roadmap \\| priorities |"
+    ].join("\n"));
+  });
+
+  it("reads every Excel sheet, placing cells by reference", async () => {
+    const document = await extracted("budget.xlsx");
+    expect(document.sections).toEqual([
+      {
+        label: "Sheet: Summary",
+        text: [
+          "| Category | Amount | Approved |",
+          "| --- | --- | --- |",
+          "| Rent | 1200 | TRUE |",
+          "| Travel |  | FALSE |"
+        ].join("\n")
+      },
+      { label: "Sheet: Notes", text: "|  | Approved by finance |\n| --- | --- |" }
+    ]);
+  });
+
+  it("reads PowerPoint slides in presentation order", async () => {
+    const document = await extracted("deck.pptx");
+    expect(document.sections).toEqual([
+      { label: "Slide 1", text: "Product Roadmap\nShip search in Q3" },
+      { label: "Slide 2", text: "Questions?" }
+    ]);
+  });
+
+  describe("malformed files", () => {
+    it("reports a truncated Office file as unreadable", async () => {
+      const result = await extractFixture("truncated.docx");
+      expect(result).toEqual({ success: false, error: "The file could not be read (not a ZIP archive)" });
+    });
+
+    it("reports a file that is not the format it claims", async () => {
+      const result = await extractFixture("not-a-zip.xlsx");
+      expect(result.success).toBe(false);
+    });
+
+    it("refuses encrypted PDFs", async () => {
+      const result = await extractFixture("encrypted.pdf");
+      expect(result).toEqual({ success: false, error: "The file could not be read (the PDF is encrypted)" });
+    });
+
+    it("reports a PDF without a text layer", async () => {
+      const result = await extractFixture("scanned.pdf");
+      expect(result).toEqual({ success: false, error: "The PDF has no text layer (it may be a scanned document)" });
+    });
+
+    it("refuses legacy Office formats and unknown types", async () => {
+      const bytes = new Uint8Array(8);
+      expect((await extractDocument({ name: "old.doc", mimeType: "application/msword", bytes })).success).toBe(false);
+      expect((await extractDocument({ name: "x.bin", mimeType: "application/octet-stream", bytes })).success).toBe(false);
+    });
+  });
+
+  describe("oversized files", () => {
+    it("drops far-away columns instead of padding every row to them", async () => {
+      const started = Date.now();
+      const document = await extracted("wide.xlsx");
+      const text = document.sections[0].text;
+
+      expect(Date.now() - started).toBeLessThan(5000);
+      expect(text.length).toBeLessThan(100_000);
+      expect(text.split("\n")[0]).toBe("| Row 1 |");
+      expect(text).toContain("| Row 3000 |");
+      expect(text).toContain("[16284 more columns not shown]");
+    });
+
+    it("stops inflating once an archive's entries pass the total limit", async () => {
+      const result = await extractFixture("bomb.xlsx");
+      expect(result).toEqual({ success: false, error: "The file could not be read (its compressed contents are too large)" });
+    });
+
+    it("caps the rows of a long table", async () => {
+      const csv = ["id,value", ...Array.from({ length: 12000 }, (_, i) => `${i},${i * 2}`)].join("\n");
+      const result = await extractDocument({ name: "long.csv", mimeType: "text/csv", bytes: new TextEncoder().encode(csv) });
+      if (!result.success) throw new Error(result.error);
+
+      const lines = result.sections[0].text.split("\n");
+      expect(lines).toHaveLength(10000 + 2);
+      expect(lines[lines.length - 1]).toBe("[2001 more rows not shown]");
+    });
+  });
+});
+
+describe("parseCsv", () => {
+  it("keeps escaped quotes and line breaks inside quoted fields", () => {
+    expect(parseCsv("a,b\n\"say \"\"hi\"\"\",\"two\nlines\"\n")).toEqual([["a", "b"], ["say \"hi\"", "two\nlines"]]);
+  });
+});
+
+describe("formatDocument", () => {
+  it("cuts a document to the token budget and names what was left out", async () => {
+    const document = await extracted("report.pdf");
+    const text = formatDocument("report.pdf", document, 15);
+    expect(text).toBe("[File: report.pdf (PDF, 2 pages)]\n\n[Truncated: 2 more pages did not fit]");
+  });
+});
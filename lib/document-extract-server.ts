@@ -0,0 +1,1001 @@
+/**
+ * Document Text Extraction for Next.js API Routes
+ *
+ * Pulls the text out of attached documents so the model can read them:
+ * PDF (per page), Word (.docx, tables as Markdown), Excel (.xlsx, per sheet),
+ * PowerPoint (.pptx, per slide), CSV and plain text. Everything runs locally
+ * on Node's zlib - Office files are ZIP archives of XML, and PDF text is read
+ * from the page content streams, mapped through the fonts' ToUnicode tables.
+ *
+ * Scanned PDFs have no text layer and are reported as unreadable, as are
+ * encrypted files and the old binary .doc/.xls formats.
+ */
+
+import zlib from "zlib";
+
+export type DocumentKind = "text" | "csv" | "pdf" | "docx" | "xlsx" | "pptx";
+
+/** A page, sheet or slide; `label` is unset for documents without parts */
+export interface DocumentSection {
+  label?: string;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  success: true;
+  kind: DocumentKind;
+  sections: DocumentSection[];
+}
+
+export interface DocumentExtractionError {
+  success: false;
+  error: string;
+}
+
+export type DocumentExtraction = ExtractedDocument | DocumentExtractionError;
+
+const DEFAULT_TOKEN_BUDGET = 8000;
+// Largest decompressed stream or archive entry, and all of one file's together;
+// guards against zip bombs
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+const MAX_TOTAL_INFLATED_BYTES = 100 * 1024 * 1024;
+const MAX_PDF_PAGES = 1000;
+// Spreadsheets can address 16,384 columns and a million rows; tables keep this much
+const MAX_TABLE_COLUMNS = 100;
+const MAX_TABLE_ROWS = 10000;
+// Most text kept from one file, well beyond what a prompt or the document library uses
+const MAX_EXTRACTED_CHARS = 2 * 1024 * 1024;
+
+const DOCUMENT_KINDS: Record<string, DocumentKind> = {
+  "text/plain": "text",
+  "text/markdown": "text",
+  "application/json": "text",
+  "text/csv": "csv",
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx"
+};
+
+const LEGACY_FORMATS: Record<string, string> = {
+  "application/msword": "Word 97-2003 (.doc) files can't be read; save it as .docx",
+  "application/vnd.ms-excel": "Excel 97-2003 (.xls) files can't be read; save it as .xlsx"
+};
+
+const KIND_NAMES: Record<DocumentKind, string> = {
+  text: "text",
+  csv: "CSV",
+  pdf: "PDF",
+  docx: "Word document",
+  xlsx: "Excel workbook",
+  pptx: "PowerPoint presentation"
+};
+
+/** Tokens of document text added to one prompt (DOCUMENT_TOKEN_BUDGET) */
+export function getDocumentTokenBudget(): number {
+  const configured = Number(process.env.DOCUMENT_TOKEN_BUDGET);
+  return configured > 0 ? configured : DEFAULT_TOKEN_BUDGET;
+}
+
+export function isExtractableDocument(mimeType: string): boolean {
+  return mimeType in DOCUMENT_KINDS;
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+/** Bytes a file's streams may still inflate to, shared by all of them */
+interface InflateBudget {
+  remaining: number;
+}
+
+function inflate(data: Buffer, raw: boolean, budget: InflateBudget): Buffer {
+  if (budget.remaining <= 0) {
+    throw new Error("its compressed contents are too large");
+  }
+  const options = { maxOutputLength: Math.min(MAX_INFLATED_BYTES, budget.remaining) };
+  let output: Buffer;
+  try {
+    output = raw ? zlib.inflateRawSync(data, options) : zlib.inflateSync(data, options);
+  } catch (error: any) {
+    if (error.code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error("its compressed contents are too large");
+    }
+    // Many PDF writers leave the final block unterminated
+    const lenient = { ...options, finishFlush: zlib.constants.Z_SYNC_FLUSH };
+    output = raw ? zlib.inflateRawSync(data, lenient) : zlib.inflateSync(data, lenient);
+  }
+  budget.remaining -= output.length;
+  return output;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return "\"";
+      case "apos": return "'";
+    }
+    const value = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+  });
+}
+
+function xmlAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+/**
+ * Rows as a Markdown table, the first row as its header. Shows at most
+ * MAX_TABLE_COLUMNS columns and MAX_TABLE_ROWS rows, and only the rows that
+ * fit in `maxChars`; what was left out, including rows and columns the
+ * caller already dropped (`omitted`), is noted under the table.
+ */
+function formatTable(rows: string[][], maxChars = MAX_EXTRACTED_CHARS, omitted = { rows: 0, columns: 0 }): string {
+  const widest = rows.reduce((most, row) => Math.max(most, row.length), 0);
+  const width = Math.min(widest, MAX_TABLE_COLUMNS);
+  if (width === 0) {
+    return "";
+  }
+  const line = (row: string[]) => {
+    const cells = Array.from({ length: width }, (_, i) => (row[i] ?? "").replace(/\s+/g, " ").replace(/\|/g, "\\|").trim());
+    return `| ${cells.join(" | ")} |`;
+  };
+
+  const lines = [line(rows[0]), `|${" --- |".repeat(width)}`];
+  let length = lines[0].length + lines[1].length;
+  let shown = 1;
+  for (; shown < rows.length && shown < MAX_TABLE_ROWS; shown++) {
+    const next = line(rows[shown]);
+    if (length + next.length + 1 > maxChars) break;
+    lines.push(next);
+    length += next.length + 1;
+  }
+
+  const hiddenRows = rows.length - shown + omitted.rows;
+  const hiddenColumns = Math.max(widest - width, omitted.columns);
+  if (hiddenRows > 0) {
+    lines.push(`[${hiddenRows} more row${hiddenRows === 1 ? "" : "s"} not shown]`);
+  }
+  if (hiddenColumns > 0) {
+    lines.push(`[${hiddenColumns} more column${hiddenColumns === 1 ? "" : "s"} not shown]`);
+  }
+  return lines.join("\n");
+}
+
+function tidyText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+\n/g, "\n")
+    .replace(/[ \u00a0]{2,}/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// ZIP archives (Office Open XML)
+// ---------------------------------------------------------------------------
+
+interface ZipArchive {
+  names: string[];
+  /** An entry as UTF-8 text, or undefined if it doesn't exist */
+  read(name: string): string | undefined;
+}
+
+/**
+ * Read the central directory of a ZIP file; entries are inflated on demand,
+ * up to MAX_TOTAL_INFLATED_BYTES for the whole archive
+ */
+function openZip(bytes: Buffer): ZipArchive {
+  const END_OF_DIRECTORY = 0x06054b50;
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (bytes.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("not a ZIP archive");
+  }
+
+  const entries = new Map<string, { method: number; size: number; offset: number; encrypted: boolean }>();
+  let position = bytes.readUInt32LE(end + 16);
+  const count = bytes.readUInt16LE(end + 10);
+  for (let i = 0; i < count && position + 46 <= bytes.length; i++) {
+    if (bytes.readUInt32LE(position) !== 0x02014b50) {
+      break;
+    }
+    const nameLength = bytes.readUInt16LE(position + 28);
+    const name = bytes.toString("utf8", position + 46, position + 46 + nameLength);
+    entries.set(name, {
+      method: bytes.readUInt16LE(position + 10),
+      size: bytes.readUInt32LE(position + 20),
+      offset: bytes.readUInt32LE(position + 42),
+      encrypted: (bytes.readUInt16LE(position + 8) & 1) === 1
+    });
+    position += 46 + nameLength + bytes.readUInt16LE(position + 30) + bytes.readUInt16LE(position + 32);
+  }
+
+  const budget: InflateBudget = { remaining: MAX_TOTAL_INFLATED_BYTES };
+  return {
+    names: Array.from(entries.keys()),
+    read(name) {
+      const entry = entries.get(name);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.encrypted) {
+        throw new Error("the file is password-protected");
+      }
+      const header = entry.offset;
+      const start = header + 30 + bytes.readUInt16LE(header + 26) + bytes.readUInt16LE(header + 28);
+      const data = bytes.subarray(start, start + entry.size);
+      if (entry.method === 0) {
+        return data.toString("utf8");
+      }
+      if (entry.method === 8) {
+        return inflate(data, true, budget).toString("utf8");
+      }
+      throw new Error(`unsupported ZIP compression method ${entry.method}`);
+    }
+  };
+}
+
+/** Targets of a relationships part by relationship ID, resolved against `baseDir` */
+function readRelationships(zip: ZipArchive, relsPath: string, baseDir: string): Map<string, string> {
+  const relationships = new Map<string, string>();
+  const xml = zip.read(relsPath) ?? "";
+  for (const tag of xml.match(/<Relationship\s[^>]*>/g) ?? []) {
+    const id = xmlAttribute(tag, "Id");
+    const target = xmlAttribute(tag, "Target");
+    if (id && target) {
+      relationships.set(id, target.startsWith("/") ? target.slice(1) : `${baseDir}${target}`);
+    }
+  }
+  return relationships;
+}
+
+// ---------------------------------------------------------------------------
+// Word
+// ---------------------------------------------------------------------------
+
+function docxParagraph(xml: string): string {
+  let text = "";
+  const runs = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\/>|<w:cr\/>/g;
+  let match;
+  while ((match = runs.exec(xml))) {
+    if (match[1] !== undefined) text += decodeXmlEntities(match[1]);
+    else if (match[0] === "<w:tab/>") text += "\t";
+    else text += "\n";
+  }
+
+  const style = xml.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? "";
+  const heading = style.match(/^Heading(\d)$/i);
+  if (text.trim() && heading) {
+    return `${"#".repeat(Math.min(6, Number(heading[1])))} ${text}`;
+  }
+  if (text.trim() && style === "Title") {
+    return `# ${text}`;
+  }
+  if (text.trim() && xml.includes("<w:numPr>")) {
+    return `- ${text}`;
+  }
+  return text;
+}
+
+function docxTable(xml: string): string {
+  const rows = (xml.match(/<w:tr[ >][\s\S]*?<\/w:tr>/g) ?? []).map(row =>
+    (row.match(/<w:tc[ >][\s\S]*?<\/w:tc>/g) ?? []).map(cell =>
+      (cell.match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? []).map(docxParagraph).join(" ")
+    )
+  );
+  return formatTable(rows);
+}
+
+function extractDocx(zip: ZipArchive): DocumentSection[] {
+  const xml = zip.read("word/document.xml");
+  if (xml === undefined) {
+    throw new Error("word/document.xml is missing");
+  }
+
+  const blocks: string[] = [];
+  const body = /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g;
+  let match;
+  while ((match = body.exec(xml))) {
+    blocks.push(match[0].startsWith("<w:tbl>") ? docxTable(match[0]) : docxParagraph(match[0]));
+  }
+  return [{ text: tidyText(blocks.join("\n")) }];
+}
+
+// ---------------------------------------------------------------------------
+// Excel
+// ---------------------------------------------------------------------------
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "A";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function xmlText(xml: string): string {
+  return (xml.replace(/<rPh[\s\S]*?<\/rPh>/g, "").match(/<t(?:\s[^>]*)?>[^<]*<\/t>/g) ?? [])
+    .map(t => decodeXmlEntities(t.replace(/<[^>]+>/g, "")))
+    .join("");
+}
+
+function extractXlsx(zip: ZipArchive): DocumentSection[] {
+  const sharedStrings = (zip.read("xl/sharedStrings.xml")?.match(/<si>[\s\S]*?<\/si>/g) ?? []).map(xmlText);
+  const relationships = readRelationships(zip, "xl/_rels/workbook.xml.rels", "xl/");
+  const workbook = zip.read("xl/workbook.xml") ?? "";
+
+  const sections: DocumentSection[] = [];
+  // Shared by all sheets; once it runs out, later sheets are not read
+  let remainingChars = MAX_EXTRACTED_CHARS;
+  for (const tag of workbook.match(/<sheet\s[^>]*>/g) ?? []) {
+    if (remainingChars <= 0) {
+      break;
+    }
+    const name = xmlAttribute(tag, "name") ?? `Sheet${sections.length + 1}`;
+    const path = relationships.get(xmlAttribute(tag, "r:id") ?? "");
+    const xml = path ? zip.read(path) : undefined;
+    if (xml === undefined) {
+      continue;
+    }
+
+    // Cells are placed by reference, so columns far to the right are dropped
+    // rather than padding every row out to them
+    const rows: string[][] = [];
+    const omitted = { rows: 0, columns: 0 };
+    let chars = 0;
+    const rowPattern = /<row[ >][\s\S]*?<\/row>/g;
+    let row;
+    while ((row = rowPattern.exec(xml))) {
+      if (rows.length >= MAX_TABLE_ROWS || chars > remainingChars) {
+        omitted.rows++;
+        continue;
+      }
+      const cells: string[] = [];
+      for (const cell of row[0].match(/<c[ >][\s\S]*?<\/c>|<c\s[^>]*\/>/g) ?? []) {
+        const open = cell.match(/^<c[^>]*>/)?.[0] ?? cell;
+        const reference = xmlAttribute(open, "r");
+        const index = reference ? columnIndex(reference) : cells.length;
+        if (index >= MAX_TABLE_COLUMNS) {
+          omitted.columns = Math.max(omitted.columns, index + 1 - MAX_TABLE_COLUMNS);
+          continue;
+        }
+        const type = xmlAttribute(open, "t");
+        const value = decodeXmlEntities(cell.match(/<v>([^<]*)<\/v>/)?.[1] ?? "");
+        let text = value;
+        if (type === "s") text = sharedStrings[Number(value)] ?? "";
+        else if (type === "inlineStr") text = xmlText(cell);
+        else if (type === "b") text = value === "1" ? "TRUE" : "FALSE";
+        cells[index] = text;
+      }
+      const filled = Array.from(cells, cell => cell ?? "");
+      if (filled.some(cell => cell.trim())) {
+        rows.push(filled);
+        chars += filled.reduce((sum, cell) => sum + cell.length + 3, 2);
+      }
+    }
+    const text = formatTable(rows, remainingChars, omitted);
+    remainingChars -= text.length;
+    sections.push({ label: `Sheet: ${name}`, text });
+  }
+  return sections;
+}
+
+// ---------------------------------------------------------------------------
+// PowerPoint
+// ---------------------------------------------------------------------------
+
+function extractPptx(zip: ZipArchive): DocumentSection[] {
+  const relationships = readRelationships(zip, "ppt/_rels/presentation.xml.rels", "ppt/");
+  const presentation = zip.read("ppt/presentation.xml") ?? "";
+  let slidePaths = (presentation.match(/<p:sldId\s[^>]*>/g) ?? [])
+    .map(tag => relationships.get(xmlAttribute(tag, "r:id") ?? ""))
+    .filter((path): path is string => !!path);
+
+  // Fall back to file order when the presentation part can't be followed
+  if (slidePaths.length === 0) {
+    slidePaths = zip.names
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => Number(a.match(/\d+/)?.[0]) - Number(b.match(/\d+/)?.[0]));
+  }
+
+  return slidePaths.map((path, index) => {
+    const xml = zip.read(path) ?? "";
+    const paragraphs = (xml.match(/<a:p>[\s\S]*?<\/a:p>|<a:p\s[\s\S]*?<\/a:p>/g) ?? [])
+      .map(paragraph => (paragraph.match(/<a:t>[^<]*<\/a:t>/g) ?? []).map(t => decodeXmlEntities(t.slice(5, -6))).join(""))
+      .filter(text => text.trim());
+    return { label: `Slide ${index + 1}`, text: tidyText(paragraphs.join("\n")) };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Split CSV text into rows, honouring quotes; the delimiter is guessed from the first line */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"" && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+interface PdfObject {
+  /** The object's text up to any stream: usually a dictionary */
+  body: string;
+  stream?: Buffer;
+}
+
+interface PdfFont {
+  bytesPerCode: 1 | 2;
+  toUnicode?: Map<number, string>;
+}
+
+// Windows-1252 characters that differ from Latin-1, for fonts without a ToUnicode map
+const WIN_ANSI: Record<number, string> = {
+  0x80: "€", 0x85: "…", 0x91: "‘", 0x92: "’", 0x93: "“", 0x94: "”", 0x95: "•", 0x96: "–", 0x97: "—", 0x99: "™"
+};
+
+const PDF_DELIMITERS = "()<>[]{}/%";
+
+function isPdfWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t" || char === "\f" || char === "\0";
+}
+
+/** Read a `( ... )` string starting at `start`; returns its bytes (as Latin-1) and the position after it */
+function readLiteralString(source: string, start: number): [string, number] {
+  let result = "";
+  let depth = 1;
+  let i = start + 1;
+  while (i < source.length && depth > 0) {
+    const char = source[i];
+    if (char === "\\") {
+      const next = source[i + 1];
+      const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "(": "(", ")": ")", "\\": "\\" };
+      if (next in escapes) {
+        result += escapes[next];
+        i += 2;
+      } else if (next >= "0" && next <= "7") {
+        const octal = source.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+      } else if (next === "\r" || next === "\n") {
+        i += next === "\r" && source[i + 2] === "\n" ? 3 : 2;
+      } else {
+        i++;
+      }
+      continue;
+    }
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (depth > 0) result += char;
+    i++;
+  }
+  return [result, i];
+}
+
+function hexToBytes(hex: string): string {
+  const digits = hex.replace(/[^0-9a-f]/gi, "");
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  let result = "";
+  for (let i = 0; i < padded.length; i += 2) {
+    result += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return result;
+}
+
+/** Read one PDF value (dictionary, array, string, name, reference or number) as raw text */
+function readPdfValue(source: string, start: number): [string, number] {
+  let i = start;
+  while (i < source.length && isPdfWhitespace(source[i])) i++;
+  const begin = i;
+
+  if (source.startsWith("<<", i) || source[i] === "[") {
+    let depth = 0;
+    while (i < source.length) {
+      if (source[i] === "(") {
+        i = readLiteralString(source, i)[1];
+        continue;
+      }
+      if (source.startsWith("<<", i) || source[i] === "[") {
+        depth++;
+        i += source[i] === "[" ? 1 : 2;
+      } else if (source.startsWith(">>", i) || source[i] === "]") {
+        depth--;
+        i += source[i] === "]" ? 1 : 2;
+        if (depth === 0) break;
+      } else {
+        i++;
+      }
+    }
+    return [source.slice(begin, i), i];
+  }
+  if (source[i] === "(") {
+    const end = readLiteralString(source, i)[1];
+    return [source.slice(begin, end), end];
+  }
+  if (source[i] === "<") {
+    const end = source.indexOf(">", i);
+    return end === -1 ? [source.slice(begin), source.length] : [source.slice(begin, end + 1), end + 1];
+  }
+
+  const reference = source.slice(i, i + 32).match(/^\d+\s+\d+\s+R(?![A-Za-z])/);
+  if (reference) {
+    return [reference[0], i + reference[0].length];
+  }
+  i++;
+  while (i < source.length && !isPdfWhitespace(source[i]) && !PDF_DELIMITERS.includes(source[i])) i++;
+  return [source.slice(begin, i), i];
+}
+
+/** The top-level entries of a `<< ... >>` dictionary, values as raw text */
+function parsePdfDictionary(source: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  const open = source.indexOf("<<");
+  if (open === -1) {
+    return entries;
+  }
+
+  let i = open + 2;
+  while (i < source.length) {
+    while (i < source.length && isPdfWhitespace(source[i])) i++;
+    if (source[i] !== "/") break;
+    const [key, afterKey] = readPdfValue(source, i);
+    const [value, afterValue] = readPdfValue(source, afterKey);
+    entries.set(key.slice(1), value.trim());
+    i = afterValue;
+  }
+  return entries;
+}
+
+function referencesIn(value: string): number[] {
+  return (value.match(/\d+\s+\d+\s+R(?![A-Za-z])/g) ?? []).map(reference => parseInt(reference, 10));
+}
+
+function toUtf16(hex: string, offset = 0): string {
+  const digits = hex.replace(/[^0-9a-f]/gi, "");
+  const units = digits.length <= 4
+    ? (digits ? [parseInt(digits, 16)] : [])
+    : digits.match(/.{1,4}/g)!.map(unit => parseInt(unit, 16));
+  if (units.length > 0) units[units.length - 1] += offset;
+  return String.fromCharCode(...units);
+}
+
+function parseToUnicode(cmap: string): PdfFont {
+  const toUnicode = new Map<number, string>();
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+  const bytesPerCode = codespace && codespace[1].length <= 2 ? 1 : 2;
+
+  for (const block of cmap.match(/beginbfchar[\s\S]*?endbfchar/g) ?? []) {
+    for (const pair of block.match(/<[0-9a-f]+>\s*<[0-9a-f]*>/gi) ?? []) {
+      const [source, target] = pair.match(/<([0-9a-f]*)>/gi)!;
+      toUnicode.set(parseInt(source.slice(1, -1), 16), toUtf16(target.slice(1, -1)));
+    }
+  }
+  for (const block of cmap.match(/beginbfrange[\s\S]*?endbfrange/g) ?? []) {
+    for (const range of block.match(/<[0-9a-f]+>\s*<[0-9a-f]+>\s*(?:<[0-9a-f]*>|\[[^\]]*\])/gi) ?? []) {
+      const [low, high] = range.match(/<([0-9a-f]+)>/gi)!.map(code => parseInt(code.slice(1, -1), 16));
+      if (high < low || high - low > 0xffff) continue;
+      const list = range.match(/\[([^\]]*)\]/);
+      const targets = list ? list[1].match(/<([0-9a-f]*)>/gi) ?? [] : null;
+      const base = range.match(/<([0-9a-f]*)>\s*$/i)?.[1] ?? "";
+      for (let code = low; code <= high; code++) {
+        toUnicode.set(code, targets ? toUtf16(targets[code - low]?.slice(1, -1) ?? "") : toUtf16(base, code - low));
+      }
+    }
+  }
+  return { bytesPerCode, toUnicode };
+}
+
+function decodeShownText(bytes: string, font: PdfFont | undefined): string {
+  if (font?.toUnicode) {
+    let text = "";
+    for (let i = 0; i < bytes.length; i += font.bytesPerCode) {
+      const code = font.bytesPerCode === 2
+        ? (bytes.charCodeAt(i) << 8) | (bytes.charCodeAt(i + 1) || 0)
+        : bytes.charCodeAt(i);
+      text += font.toUnicode.get(code) ?? (font.bytesPerCode === 1 ? String.fromCharCode(code) : "");
+    }
+    return text;
+  }
+  // Two-byte codes without a ToUnicode map are glyph IDs that can't be read
+  if (font?.bytesPerCode === 2) {
+    return "";
+  }
+  return Array.from(bytes, char => WIN_ANSI[char.charCodeAt(0)] ?? char).join("");
+}
+
+/** Run a page's content stream, collecting the text it shows */
+function extractPageText(content: string, fonts: Map<string, PdfFont>): string {
+  const ARRAY_START = {};
+  let text = "";
+  let operands: any[] = [];
+  let font: PdfFont | undefined;
+  let lineY: number | null = null;
+
+  const newline = () => { if (text && !text.endsWith("\n")) text += "\n"; };
+  const space = () => { if (text && !/\s$/.test(text)) text += " "; };
+  const show = (value: unknown) => {
+    if (typeof value === "object" && value !== null && "bytes" in value) {
+      text += decodeShownText((value as { bytes: string }).bytes, font);
+    }
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (isPdfWhitespace(char)) {
+      i++;
+    } else if (char === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+    } else if (char === "(") {
+      const [bytes, next] = readLiteralString(content, i);
+      operands.push({ bytes });
+      i = next;
+    } else if (content.startsWith("<<", i) || content.startsWith(">>", i)) {
+      i += 2;
+    } else if (char === "<") {
+      const end = content.indexOf(">", i);
+      operands.push({ bytes: hexToBytes(content.slice(i + 1, end)) });
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === "[") {
+      operands.push(ARRAY_START);
+      i++;
+    } else if (char === "]") {
+      const start = operands.lastIndexOf(ARRAY_START);
+      const items = operands.slice(start + 1);
+      operands = start === -1 ? [items] : [...operands.slice(0, start), items];
+      i++;
+    } else if (char === "/") {
+      const [name, next] = readPdfValue(content, i);
+      operands.push(name.slice(1));
+      i = next;
+    } else if ("{}>)".includes(char)) {
+      i++;
+    } else {
+      let end = i + 1;
+      while (end < content.length && !isPdfWhitespace(content[end]) && !PDF_DELIMITERS.includes(content[end])) end++;
+      const token = content.slice(i, end);
+      i = end;
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        operands.push(Number(token));
+        continue;
+      }
+
+      switch (token) {
+        case "Tf":
+          font = fonts.get(String(operands[0]));
+          break;
+        case "Tj":
+          show(operands[0]);
+          break;
+        case "'":
+          newline();
+          show(operands[0]);
+          break;
+        case "\"":
+          newline();
+          show(operands[2]);
+          break;
+        case "TJ":
+          for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+            // Large negative adjustments are the gaps between words
+            if (typeof item === "number") {
+              if (item < -200) space();
+            } else {
+              show(item);
+            }
+          }
+          break;
+        case "Td":
+        case "TD":
+          if (Math.abs(Number(operands[1]) || 0) > 0.01) newline();
+          else space();
+          break;
+        case "T*":
+          newline();
+          break;
+        case "Tm": {
+          const y = Number(operands[5]) || 0;
+          if (lineY !== null && Math.abs(y - lineY) > 0.01) newline();
+          else space();
+          lineY = y;
+          break;
+        }
+        case "BI": {
+          // Inline image data runs until a standalone EI
+          const imageEnd = content.slice(i).search(/\sEI(?=\s|$)/);
+          i = imageEnd === -1 ? content.length : i + imageEnd + 3;
+          break;
+        }
+      }
+      operands = [];
+    }
+  }
+  return text;
+}
+
+function extractPdf(bytes: Buffer): DocumentSection[] {
+  const source = bytes.toString("latin1");
+  if (!source.startsWith("%PDF-")) {
+    throw new Error("not a PDF file");
+  }
+  if (/\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(source)) {
+    throw new Error("the PDF is encrypted");
+  }
+
+  const budget: InflateBudget = { remaining: MAX_TOTAL_INFLATED_BYTES };
+
+  // Objects by number; later definitions (incremental updates) win
+  const objects = new Map<number, PdfObject>();
+  const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match;
+  while ((match = objectPattern.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endobj", start);
+    const streamAt = source.indexOf("stream", start);
+    if (streamAt !== -1 && (end === -1 || streamAt < end)) {
+      let dataStart = streamAt + 6;
+      if (source[dataStart] === "\r") dataStart++;
+      if (source[dataStart] === "\n") dataStart++;
+      const body = source.slice(start, streamAt);
+      const streamEnd = source.indexOf("endstream", dataStart);
+      if (streamEnd === -1) break;
+      const length = Number(parsePdfDictionary(body).get("Length"));
+      const dataEnd = Number.isInteger(length) && dataStart + length <= streamEnd ? dataStart + length : streamEnd;
+      objects.set(Number(match[1]), { body, stream: bytes.subarray(dataStart, dataEnd) });
+      objectPattern.lastIndex = streamEnd + 9;
+    } else {
+      objects.set(Number(match[1]), { body: source.slice(start, end === -1 ? undefined : end) });
+      if (end !== -1) objectPattern.lastIndex = end + 6;
+    }
+  }
+
+  const decodeStream = (object: PdfObject | undefined): string | null => {
+    if (!object?.stream) return null;
+    const filters = parsePdfDictionary(object.body).get("Filter")?.match(/\/\w+/g) ?? [];
+    let data = object.stream;
+    for (const filter of filters) {
+      if (filter !== "/FlateDecode" && filter !== "/Fl") return null;
+      try {
+        data = inflate(data, false, budget);
+      } catch {
+        return null;
+      }
+    }
+    return data.toString("latin1");
+  };
+
+  // Objects packed into compressed object streams (PDF 1.5+)
+  for (const object of Array.from(objects.values())) {
+    const dictionary = parsePdfDictionary(object.body);
+    if (dictionary.get("Type") !== "/ObjStm") continue;
+    const data = decodeStream(object);
+    const first = Number(dictionary.get("First"));
+    if (data === null || !Number.isInteger(first)) continue;
+    const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let k = 0; k + 1 < header.length; k += 2) {
+      const next = k + 3 < header.length ? first + header[k + 3] : data.length;
+      if (!objects.has(header[k])) {
+        objects.set(header[k], { body: data.slice(first + header[k + 1], next) });
+      }
+    }
+  }
+
+  const resolve = (value: string | undefined): string => {
+    const reference = value?.match(/^(\d+)\s+\d+\s+R/);
+    return reference ? objects.get(Number(reference[1]))?.body ?? "" : value ?? "";
+  };
+
+  // Fonts are shared between pages, so each is read once
+  const fontCache = new Map<string, PdfFont>();
+  const readFonts = (resources: Map<string, string>): Map<string, PdfFont> => {
+    const fonts = new Map<string, PdfFont>();
+    for (const [name, value] of Array.from(parsePdfDictionary(resolve(resources.get("Font"))).entries())) {
+      const cached = fontCache.get(value);
+      if (cached) {
+        fonts.set(name, cached);
+        continue;
+      }
+      const dictionary = parsePdfDictionary(resolve(value));
+      const cmap = decodeStream(objects.get(referencesIn(dictionary.get("ToUnicode") ?? "")[0]));
+      const font: PdfFont = cmap
+        ? parseToUnicode(cmap)
+        : { bytesPerCode: dictionary.get("Subtype") === "/Type0" ? 2 : 1 };
+      if (dictionary.get("Subtype") === "/Type0") font.bytesPerCode = 2;
+      fontCache.set(value, font);
+      fonts.set(name, font);
+    }
+    return fonts;
+  };
+
+  // Walk the page tree from the catalog, passing inherited resources down
+  const pages: { page: Map<string, string>; resources: Map<string, string> }[] = [];
+  const visited = new Set<number>();
+  const walk = (number: number, inherited: Map<string, string>) => {
+    if (visited.has(number) || pages.length >= MAX_PDF_PAGES) return;
+    visited.add(number);
+    const node = parsePdfDictionary(objects.get(number)?.body ?? "");
+    const resources = node.has("Resources") ? parsePdfDictionary(resolve(node.get("Resources"))) : inherited;
+    if (node.has("Kids")) {
+      for (const kid of referencesIn(resolve(node.get("Kids")))) walk(kid, resources);
+    } else if (node.get("Type") === "/Page" || node.has("Contents")) {
+      pages.push({ page: node, resources });
+    }
+  };
+
+  const roots = source.match(/\/Root\s+\d+\s+\d+\s+R/g) ?? [];
+  const catalog = parsePdfDictionary(resolve(roots[roots.length - 1]?.slice(5).trim()));
+  for (const pagesRoot of referencesIn(catalog.get("Pages") ?? "")) {
+    walk(pagesRoot, new Map());
+  }
+  // Without a usable catalog, take page objects in number order
+  if (pages.length === 0) {
+    const numbers = Array.from(objects.keys()).sort((a, b) => a - b);
+    for (const number of numbers) {
+      if (/\/Type\s*\/Page(?![s\w])/.test(objects.get(number)!.body)) walk(number, new Map());
+    }
+  }
+
+  return pages.map(({ page, resources }, index) => {
+    const contents = referencesIn(page.get("Contents") ?? "").flatMap(number =>
+      objects.get(number)?.stream ? [number] : referencesIn(objects.get(number)?.body ?? "")
+    );
+    const content = contents.map(number => decodeStream(objects.get(number)) ?? "").join("\n");
+    return { label: `Page ${index + 1}`, text: tidyText(extractPageText(content, readFonts(resources))) };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the text of a document. Never throws: unreadable files return an
+ * error message the model can pass on to the user.
+ */
+export async function extractDocument(file: { name: string; mimeType: string; bytes: Uint8Array }): Promise<DocumentExtraction> {
+  if (LEGACY_FORMATS[file.mimeType]) {
+    return { success: false, error: LEGACY_FORMATS[file.mimeType] };
+  }
+  const kind = DOCUMENT_KINDS[file.mimeType];
+  if (!kind) {
+    return { success: false, error: `${file.mimeType} files can't be read` };
+  }
+
+  const bytes = Buffer.from(file.bytes.buffer, file.bytes.byteOffset, file.bytes.byteLength);
+  try {
+    let sections: DocumentSection[];
+    if (kind === "text" || kind === "csv") {
+      let text = bytes.toString("utf8").replace(/^\uFEFF/, "");
+      if (file.mimeType === "application/json") {
+        try {
+          text = JSON.stringify(JSON.parse(text), null, 2);
+        } catch {
+          // Kept as sent; the model can still read it
+        }
+      }
+      sections = [{ text: kind === "csv" ? formatTable(parseCsv(text)) : text.trim() }];
+    } else if (kind === "pdf") {
+      sections = extractPdf(bytes);
+    } else {
+      const zip = openZip(bytes);
+      sections = kind === "docx" ? extractDocx(zip) : kind === "xlsx" ? extractXlsx(zip) : extractPptx(zip);
+    }
+
+    // Text past MAX_EXTRACTED_CHARS is dropped, section by section
+    let remainingChars = MAX_EXTRACTED_CHARS;
+    sections = sections.map(section => {
+      const text = section.text.slice(0, Math.max(0, remainingChars));
+      remainingChars -= text.length;
+      return { ...section, text };
+    });
+
+    if (!sections.some(section => section.text)) {
+      return {
+        success: false,
+        error: kind === "pdf"
+          ? "The PDF has no text layer (it may be a scanned document)"
+          : "The document contains no text"
+      };
+    }
+
+    console.log(`📄 [DOCUMENT] Extracted ${file.name}:`, sections.length, "section(s),", sections.reduce((sum, section) => sum + section.text.length, 0), "chars");
+    return { success: true, kind, sections };
+  } catch (error: any) {
+    console.error("❌ [DOCUMENT] Extraction failed:", file.name, error.message);
+    return { success: false, error: `The file could not be read (${error.message})` };
+  }
+}
+
+/**
+ * Format an extracted document for the prompt: a header, then each section
+ * under its page/sheet/slide marker. Text beyond `maxTokens` is cut off and
+ * the cut is noted, naming the sections that were left out.
+ */
+export function formatDocument(name: string, document: ExtractedDocument, maxTokens: number): string {
+  const labelled = document.sections.filter(section => section.label);
+  const unit = document.kind === "pdf" ? "page" : document.kind === "xlsx" ? "sheet" : document.kind === "pptx" ? "slide" : "";
+  const count = unit ? `, ${labelled.length} ${unit}${labelled.length === 1 ? "" : "s"}` : "";
+  const header = `[File: ${name} (${KIND_NAMES[document.kind]}${count})]`;
+
+  // ~4 characters per token, as in estimateTokens
+  const maxChars = maxTokens * 4;
+  const parts: string[] = [header];
+  let used = header.length;
+  for (const [index, section] of document.sections.entries()) {
+    if (!section.text) continue;
+    const block = section.label ? `--- ${section.label} ---\n${section.text}` : section.text;
+
+    if (used + block.length + 2 > maxChars) {
+      const room = maxChars - used - 2;
+      const cutShort = room > 200;
+      if (cutShort) {
+        parts.push(block.slice(0, room).replace(/\s+\S*$/, ""));
+      }
+      const missing = document.sections.slice(cutShort ? index + 1 : index).filter(later => later.text).length;
+      parts.push(unit && missing > 0
+        ? `[Truncated: ${cutShort ? `${section.label} was cut short and ` : ""}${missing} more ${unit}${missing === 1 ? "" : "s"} did not fit]`
+        : "[Truncated: the rest of the document did not fit]");
+      console.log(`✂️ [DOCUMENT] ${name} truncated to ~${maxTokens} tokens`);
+      break;
+    }
+
+    parts.push(block);
+    used += block.length + 2;
+  }
+
+  return parts.join("\n\n");
+}
@@ -0,0 +1,512 @@
+/**
+ * Personal Document Library for Next.js API Routes
+ *
+ * Users upload handbooks, notes and other documents once; each is split into
+ * chunks of about DOCUMENT_CHUNK_TOKENS tokens (never across a page, sheet or
+ * slide), the chunks are embedded with the LLM provider and stored in
+ * `document_chunks`. Chats that opt into "answer from my documents" retrieve
+ * the DOCUMENT_TOP_K most similar chunks for each message and cite them by
+ * document and page.
+ *
+ * DOCUMENT_INDEX selects where the vectors are searched:
+ *   supabase (default) the pgvector `embedding` column, via match_document_chunks()
+ *   memory   per server instance, for local development without pgvector; after a
+ *            restart a user's chunks are embedded again on their first search
+ * The original files are kept in attachment storage (see attachments-server).
+ */
+
+import { supabase } from "./supabase-server";
+import { getLLMProvider } from "./llm-provider-server";
+import { extractDocument, isExtractableDocument } from "./document-extract-server";
+import type { ExtractedDocument } from "./document-extract-server";
+import { getStorageBackend, signDownloadPath } from "./attachments-server";
+import type { UploadedFile } from "./file-upload-server";
+import { generateUUID } from "./uuid-utils";
+
+export type DocumentIndexName = "supabase" | "memory";
+
+export interface LibraryDocument {
+  id: string;
+  user_id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  storage_key: string;
+  chunk_count: number;
+  created_at: string;
+}
+
+/** A row of `document_chunks` */
+export interface DocumentChunk {
+  id: string;
+  document_id: string;
+  user_id: string;
+  chunk_index: number;
+  /** Page, sheet or slide the chunk is from, e.g. "Page 3"; null if the document has none */
+  location: string | null;
+  content: string;
+}
+
+/** A chunk found for a query, with its similarity (cosine, higher is closer) */
+export interface DocumentMatch {
+  documentId: string;
+  documentName: string;
+  mimeType: string;
+  location: string | null;
+  content: string;
+  similarity: number;
+}
+
+export interface DocumentIndex {
+  name: DocumentIndexName;
+  /** Store a document's chunks with their embeddings (same order) */
+  add(chunks: DocumentChunk[], embeddings: number[][]): Promise<void>;
+  /** The user's chunks closest to the query embedding, closest first */
+  search(userId: string, embedding: number[], limit: number): Promise<(DocumentChunk & { similarity: number })[]>;
+  /** Forget a deleted document's chunks (rows are removed by the cascade) */
+  remove(documentId: string): void;
+}
+
+export const DOCUMENT_COLUMNS = 'id, user_id, name, mime_type, size, storage_key, chunk_count, created_at';
+const CHUNK_COLUMNS = 'id, document_id, user_id, chunk_index, location, content';
+
+const DOCUMENT_INDEXES: DocumentIndexName[] = ["supabase", "memory"];
+const DEFAULT_CHUNK_TOKENS = 400;
+const DEFAULT_TOP_K = 5;
+// Larger documents are refused rather than embedded at length
+const MAX_CHUNKS_PER_DOCUMENT = 1000;
+// Rows per insert and texts per embedding call while indexing
+const BATCH_SIZE = 100;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// ---------------------------------------------------------------------------
+// Chunking
+// ---------------------------------------------------------------------------
+
+/** Cut text that is too long for one chunk at sentence or word boundaries */
+function splitLongText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const sentenceEnd = Math.max(window.lastIndexOf(". "), window.lastIndexOf("? "), window.lastIndexOf("! "));
+    const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : window.lastIndexOf(" ") > maxChars / 2 ? window.lastIndexOf(" ") : maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) {
+    pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Split a document into chunks of about `maxTokens` tokens, filled with whole
+ * lines where possible. Each chunk starts with the last line of the one
+ * before it (if short), so a passage split across chunks keeps some context.
+ */
+export function chunkDocument(document: ExtractedDocument, maxTokens = numberFromEnv("DOCUMENT_CHUNK_TOKENS", DEFAULT_CHUNK_TOKENS)): { location: string | null; content: string }[] {
+  // ~4 characters per token, as in estimateTokens
+  const maxChars = maxTokens * 4;
+  const chunks: { location: string | null; content: string }[] = [];
+
+  for (const section of document.sections) {
+    const lines = section.text
+      .split("\n")
+      .flatMap(line => line.length > maxChars ? splitLongText(line, maxChars) : [line])
+      .filter(line => line.trim() !== "");
+    let current: string[] = [];
+    let length = 0;
+
+    const flush = () => {
+      if (current.length > 0) {
+        chunks.push({ location: section.label ?? null, content: current.join("\n") });
+      }
+    };
+
+    for (const line of lines) {
+      if (length > 0 && length + line.length + 1 > maxChars) {
+        flush();
+        const overlap = current[current.length - 1];
+        current = overlap.length < maxChars / 4 && overlap.length + line.length + 1 <= maxChars ? [overlap] : [];
+        length = current.reduce((sum, kept) => sum + kept.length + 1, 0);
+      }
+      current.push(line);
+      length += line.length + 1;
+    }
+    flush();
+  }
+
+  return chunks;
+}
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+/** Vectors in the `document_chunks.embedding` column (pgvector) */
+export function createSupabaseDocumentIndex(): DocumentIndex {
+  return {
+    name: "supabase",
+    async add(chunks, embeddings) {
+      for (let start = 0; start < chunks.length; start += BATCH_SIZE) {
+        const { error } = await (supabase as any)
+          .from('document_chunks')
+          .insert(chunks.slice(start, start + BATCH_SIZE).map((chunk, i) => ({
+            ...chunk,
+            // pgvector reads vectors written as "[0.1,0.2,...]"
+            embedding: JSON.stringify(embeddings[start + i])
+          })));
+        if (error) throw error;
+      }
+    },
+    async search(userId, embedding, limit) {
+      const { data, error } = await (supabase as any).rpc('match_document_chunks', {
+        query_embedding: JSON.stringify(embedding),
+        match_user_id: userId,
+        match_count: limit
+      });
+      if (error) throw error;
+      return data || [];
+    },
+    remove() {
+      // The chunk rows, and their vectors, go with the document row
+    }
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Vectors held in memory, searched by brute force. The chunk rows are still
+ * stored in Supabase, so a user's index is rebuilt from them when it is
+ * first searched on a fresh server instance.
+ */
+export function createMemoryDocumentIndex(): DocumentIndex {
+  const vectors = new Map<string, Map<string, { chunk: DocumentChunk; embedding: number[] }>>();
+  const loading = new Map<string, Promise<void>>();
+
+  const entriesFor = (userId: string) => {
+    let entries = vectors.get(userId);
+    if (!entries) {
+      entries = new Map();
+      vectors.set(userId, entries);
+    }
+    return entries;
+  };
+
+  const put = (chunks: DocumentChunk[], embeddings: number[][]) => {
+    chunks.forEach((chunk, i) => entriesFor(chunk.user_id).set(chunk.id, { chunk, embedding: embeddings[i] }));
+  };
+
+  const load = async (userId: string) => {
+    const { data, error } = await (supabase as any)
+      .from('document_chunks')
+      .select(CHUNK_COLUMNS)
+      .eq('user_id', userId)
+      .order('chunk_index', { ascending: true });
+    if (error) throw error;
+
+    const chunks: DocumentChunk[] = data || [];
+    const known = vectors.get(userId);
+    const missing = chunks.filter(chunk => !known?.has(chunk.id));
+    if (missing.length > 0) {
+      console.log("🧮 [DOCUMENTS] Embedding", missing.length, "stored chunk(s) for the in-memory index");
+      put(missing, await embedInBatches(missing.map(chunk => chunk.content)));
+    }
+  };
+
+  return {
+    name: "memory",
+    async add(chunks, embeddings) {
+      for (let start = 0; start < chunks.length; start += BATCH_SIZE) {
+        const { error } = await (supabase as any)
+          .from('document_chunks')
+          .insert(chunks.slice(start, start + BATCH_SIZE));
+        if (error) throw error;
+      }
+      put(chunks, embeddings);
+    },
+    async search(userId, embedding, limit) {
+      // Load each user's stored chunks once per instance; concurrent searches share the load
+      let loaded = loading.get(userId);
+      if (!loaded) {
+        loaded = load(userId).catch(error => {
+          loading.delete(userId);
+          throw error;
+        });
+        loading.set(userId, loaded);
+      }
+      await loaded;
+
+      return Array.from(vectors.get(userId)?.values() || [])
+        .map(({ chunk, embedding: stored }) => ({ ...chunk, similarity: cosineSimilarity(embedding, stored) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+    },
+    remove(documentId) {
+      for (const entries of Array.from(vectors.values())) {
+        for (const [id, { chunk }] of Array.from(entries)) {
+          if (chunk.document_id === documentId) entries.delete(id);
+        }
+      }
+    }
+  };
+}
+
+let activeIndex: DocumentIndex | null = null;
+
+/** The configured document index (created once per server instance) */
+export function getDocumentIndex(): DocumentIndex {
+  if (activeIndex) {
+    return activeIndex;
+  }
+
+  const configured = (process.env.DOCUMENT_INDEX || "supabase").toLowerCase().trim();
+  if (!DOCUMENT_INDEXES.includes(configured as DocumentIndexName)) {
+    console.warn(`⚠️ [DOCUMENTS] Unknown DOCUMENT_INDEX "${configured}", using supabase`);
+  }
+
+  activeIndex = configured === "memory" ? createMemoryDocumentIndex() : createSupabaseDocumentIndex();
+  console.log(`🗂️ [DOCUMENTS] Document index: ${activeIndex.name}`);
+  return activeIndex;
+}
+
+async function embedInBatches(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+    embeddings.push(...await getLLMProvider().embed(texts.slice(start, start + BATCH_SIZE), "document", signal));
+  }
+  return embeddings;
+}
+
+// ---------------------------------------------------------------------------
+// Library
+// ---------------------------------------------------------------------------
+
+export async function listDocuments(userId: string): Promise<LibraryDocument[]> {
+  const { data, error } = await (supabase as any)
+    .from('documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return data || [];
+}
+
+/** One of the user's documents, or null if it doesn't exist or isn't theirs */
+export async function getDocument(documentId: string, userId?: string): Promise<LibraryDocument | null> {
+  let query = (supabase as any)
+    .from('documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('id', documentId);
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Add a file to the user's library: extract its text, store the original,
+ * chunk and embed it. Returns the document, or an error message for files
+ * that can't be indexed. Nothing is kept if indexing fails part-way.
+ */
+export async function addDocument(userId: string, file: UploadedFile): Promise<{ document?: LibraryDocument; error?: string }> {
+  if (!isExtractableDocument(file.mimeType)) {
+    return { error: `${file.name}: only documents (text, CSV, JSON, PDF, Word, Excel, PowerPoint) can be added to the library` };
+  }
+
+  const extraction = await extractDocument(file);
+  if (!extraction.success) {
+    return { error: `${file.name}: ${extraction.error}` };
+  }
+
+  const pieces = chunkDocument(extraction);
+  if (pieces.length === 0) {
+    return { error: `${file.name} has no text to search` };
+  }
+  if (pieces.length > MAX_CHUNKS_PER_DOCUMENT) {
+    return { error: `${file.name} is too long for the library` };
+  }
+
+  const id = generateUUID();
+  const storageKey = `${userId}/documents/${id}`;
+  const storage = getStorageBackend();
+  await storage.put(storageKey, file.bytes, file.mimeType);
+
+  try {
+    const { data: document, error } = await (supabase as any)
+      .from('documents')
+      .insert({
+        id,
+        user_id: userId,
+        name: file.name,
+        mime_type: file.mimeType,
+        size: file.size,
+        storage_key: storageKey,
+        chunk_count: pieces.length
+      })
+      .select(DOCUMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    try {
+      const chunks: DocumentChunk[] = pieces.map((piece, index) => ({
+        id: generateUUID(),
+        document_id: id,
+        user_id: userId,
+        chunk_index: index,
+        location: piece.location,
+        content: piece.content
+      }));
+      await getDocumentIndex().add(chunks, await embedInBatches(chunks.map(chunk => chunk.content)));
+    } catch (indexError) {
+      await (supabase as any).from('documents').delete().eq('id', id);
+      getDocumentIndex().remove(id);
+      throw indexError;
+    }
+
+    console.log("📚 [DOCUMENTS] Indexed", file.name, "in", pieces.length, "chunk(s)");
+    return { document };
+  } catch (error) {
+    await storage.delete(storageKey).catch(() => {});
+    throw error;
+  }
+}
+
+/** Remove a document, its chunks and its file. Returns false if the user has no such document. */
+export async function deleteDocument(userId: string, documentId: string): Promise<boolean> {
+  const { data, error } = await (supabase as any)
+    .from('documents')
+    .delete()
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .select('id, storage_key');
+
+  if (error) {
+    throw error;
+  }
+  if (!data?.length) {
+    return false;
+  }
+
+  getDocumentIndex().remove(documentId);
+  try {
+    await getStorageBackend().delete(data[0].storage_key);
+  } catch (storageError: any) {
+    console.error("❌ [DOCUMENTS] Could not delete stored file:", data[0].storage_key, storageError.message);
+  }
+  return true;
+}
+
+/** The chunks of the user's documents closest to a query, most similar first */
+export async function searchDocuments(
+  userId: string,
+  query: string,
+  { limit = numberFromEnv("DOCUMENT_TOP_K", DEFAULT_TOP_K), signal }: { limit?: number; signal?: AbortSignal } = {}
+): Promise<DocumentMatch[]> {
+  // Skip embedding the query when there is nothing to search
+  const { count, error: countError } = await (supabase as any)
+    .from('documents')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+  if (countError) {
+    throw countError;
+  }
+  if (!count) {
+    return [];
+  }
+
+  const [embedding] = await getLLMProvider().embed([query], "query", signal);
+  const found = (await getDocumentIndex().search(userId, embedding, limit)).filter(chunk => chunk.similarity > 0);
+  if (found.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await (supabase as any)
+    .from('documents')
+    .select('id, name, mime_type')
+    .in('id', Array.from(new Set(found.map(chunk => chunk.document_id))));
+
+  if (error) {
+    throw error;
+  }
+
+  const documents = new Map<string, { name: string; mime_type: string }>((data || []).map((doc: any) => [doc.id, doc]));
+  return found
+    .filter(chunk => documents.has(chunk.document_id))
+    .map(chunk => ({
+      documentId: chunk.document_id,
+      documentName: documents.get(chunk.document_id)!.name,
+      mimeType: documents.get(chunk.document_id)!.mime_type,
+      location: chunk.location,
+      content: chunk.content,
+      similarity: chunk.similarity
+    }));
+}
+
+/** Signed URL of a document's file; PDFs open at the matched page */
+export function documentFileUrl(documentId: string, location?: string | null, mimeType?: string): string {
+  const url = signDownloadPath(`/api/documents/${documentId}/file`);
+  const page = location?.match(/^Page (\d+)$/);
+  return page && mimeType === "application/pdf" ? `${url}#page=${page[1]}` : url;
+}
+
+/**
+ * Renew the signed document links in saved replies' sources, which expire
+ * like any signed URL. Other sources are left as they are.
+ */
+export function withFreshDocumentLinks<T extends { sources?: { url: string }[] | null }>(messages: T[]): T[] {
+  const pattern = /^\/api\/documents\/([0-9a-f-]{36})\/file\?[^#]*(#.*)?$/i;
+  return messages.map(message => {
+    if (!message.sources?.some(source => pattern.test(source.url))) {
+      return message;
+    }
+    return {
+      ...message,
+      sources: message.sources.map(source => {
+        const link = source.url.match(pattern);
+        return link ? { ...source, url: `${signDownloadPath(`/api/documents/${link[1]}/file`)}${link[2] || ""}` } : source;
+      })
+    };
+  });
+}
+
+/** A library document as returned to the client */
+export function toDocumentSummary(document: LibraryDocument) {
+  return {
+    id: document.id,
+    name: document.name,
+    mimeType: document.mime_type,
+    size: document.size,
+    chunkCount: document.chunk_count,
+    createdAt: document.created_at,
+    url: documentFileUrl(document.id)
+  };
+}
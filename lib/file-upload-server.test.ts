@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseFormBody, readLimitedBody } from "./file-upload-server";
+
+// A request whose body arrives in chunks, without Content-Length
+function chunkedRequest(chunks: number[]): Request {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const size of chunks) controller.enqueue(new Uint8Array(size).fill(97));
+      controller.close();
+    }
+  });
+  return new Request("http://localhost/api/chat", { method: "POST", body: stream, duplex: "half" } as RequestInit);
+}
+
+describe("readLimitedBody", () => {
+  it("reads a body within the limit", async () => {
+    const body = await readLimitedBody(chunkedRequest([3, 4]), 10);
+    expect(new TextDecoder().decode(body!)).toBe("aaaaaaa");
+  });
+
+  it("stops reading a chunked body once it passes the limit", async () => {
+    expect(await readLimitedBody(chunkedRequest([6, 6, 6]), 10)).toBeNull();
+  });
+
+  it("refuses a body whose Content-Length is over the limit without reading it", async () => {
+    const request = new Request("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "content-length": "11" },
+      body: "x".repeat(11)
+    });
+    expect(await readLimitedBody(request, 10)).toBeNull();
+    expect(request.bodyUsed).toBe(false);
+  });
+});
+
+describe("parseFormBody", () => {
+  it("reads form data from a body read with readLimitedBody", async () => {
+    const form = new FormData();
+    form.append("message", "hello");
+    form.append("files", new Blob(["notes"], { type: "text/plain" }), "notes.txt");
+    const request = new Request("http://localhost/api/chat", { method: "POST", body: form });
+
+    const body = await readLimitedBody(request, 1024 * 1024);
+    const parsed = await parseFormBody(body!, request.headers.get("content-type")!);
+    expect(parsed.get("message")).toBe("hello");
+    expect(await (parsed.get("files") as File).text()).toBe("notes");
+  });
+});
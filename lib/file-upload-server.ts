@@ -0,0 +1,249 @@
+/**
+ * File Uploads for Next.js API Routes
+ *
+ * Reads `multipart/form-data` chat requests: the text fields plus up to
+ * UPLOAD_MAX_FILES files, each checked against UPLOAD_MAX_FILE_BYTES, their
+ * sum against UPLOAD_MAX_TOTAL_BYTES, and the type against an allow-list.
+ *
+ * Attached images are handed to the image pipeline; the text of documents is
+ * extracted and added to the prompt.
+ */
+
+import { isImageType } from "./image-input-server";
+import type { RawImage } from "./image-input-server";
+import { extractDocument, formatDocument, getDocumentTokenBudget } from "./document-extract-server";
+import { estimateTokens } from "./llm-provider-server";
+import type { AttachmentInput } from "./attachments-server";
+
+/** A file from an upload, held in memory */
+export interface UploadedFile {
+  name: string;
+  mimeType: string;
+  size: number;
+  bytes: Uint8Array;
+}
+
+export interface ChatUpload {
+  /** Text fields of the form, e.g. `message` and `chatId` */
+  fields: Record<string, string>;
+  files: UploadedFile[];
+}
+
+export interface ProcessedFiles {
+  /** Attached images, still to be normalised by `prepareImages` */
+  images: RawImage[];
+  /** File contents and descriptions to add to the prompt ("" if none) */
+  fileContent: string;
+  /** Every file with the text the model was given for it, to be stored */
+  attachments: AttachmentInput[];
+}
+
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 25 * 1024 * 1024;
+
+// Accepted document types and their extensions. Images are accepted when the
+// image pipeline can read them.
+const DOCUMENT_TYPES: Record<string, string[]> = {
+  "text/plain": [".txt", ".log"],
+  "text/markdown": [".md", ".markdown"],
+  "text/csv": [".csv"],
+  "application/json": [".json"],
+  "application/pdf": [".pdf"],
+  "application/msword": [".doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.ms-excel": [".xls"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"]
+};
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+  ".avif": "image/avif",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".bmp": "image/bmp"
+};
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** Upload limits, read from the environment on each request */
+export function getUploadLimits() {
+  return {
+    maxFiles: numberFromEnv("UPLOAD_MAX_FILES", DEFAULT_MAX_FILES),
+    maxFileBytes: numberFromEnv("UPLOAD_MAX_FILE_BYTES", DEFAULT_MAX_FILE_BYTES),
+    maxTotalBytes: numberFromEnv("UPLOAD_MAX_TOTAL_BYTES", DEFAULT_MAX_TOTAL_BYTES)
+  };
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024)}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot).toLowerCase() : "";
+}
+
+/**
+ * The allowed type of a file, or null if it isn't allowed. Browsers send no
+ * type (or a generic one) for files such as .md and .csv, so those are typed
+ * by extension; otherwise the declared type must match the extension.
+ */
+function resolveFileType(name: string, declaredType: string): string | null {
+  const extension = extensionOf(name);
+  const type = declaredType.split(";")[0].trim().toLowerCase();
+
+  if (!type || type === "application/octet-stream") {
+    const byExtension = Object.entries(DOCUMENT_TYPES).find(([, extensions]) => extensions.includes(extension));
+    return byExtension?.[0] ?? IMAGE_EXTENSIONS[extension] ?? null;
+  }
+  if (isImageType(type)) {
+    return type;
+  }
+  // Windows reports .csv files as Excel spreadsheets
+  if (type === "application/vnd.ms-excel" && extension === ".csv") {
+    return "text/csv";
+  }
+  return DOCUMENT_TYPES[type]?.includes(extension) ? type : null;
+}
+
+/**
+ * Read a request body, giving up once it passes `maxBytes`: straight away if
+ * Content-Length says so, otherwise while it streams in, since chunked
+ * uploads have no Content-Length. Returns null when the body is too large.
+ */
+export async function readLimitedBody(request: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (Number(request.headers.get("content-length")) > maxBytes) {
+    return null;
+  }
+  if (!request.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/** Form data from a body read with `readLimitedBody`; throws if it isn't valid multipart */
+export function parseFormBody(body: Uint8Array<ArrayBuffer>, contentType: string): Promise<FormData> {
+  return new Response(body, { headers: { "content-type": contentType } }).formData();
+}
+
+/**
+ * Read a chat request's form data. Returns the fields and files, or an error
+ * message describing the first file that breaks a limit.
+ */
+export async function parseChatUpload(form: FormData): Promise<{ upload?: ChatUpload; error?: string }> {
+  const { maxFiles, maxFileBytes, maxTotalBytes } = getUploadLimits();
+  const fields: Record<string, string> = {};
+  const entries: File[] = [];
+
+  for (const [key, value] of Array.from(form.entries())) {
+    if (typeof value === "string") {
+      fields[key] = value;
+    } else if (key === "files") {
+      entries.push(value);
+    } else {
+      return { error: `Unexpected file field "${key}"; send files as "files"` };
+    }
+  }
+
+  if (entries.length > maxFiles) {
+    return { error: `Too many files. Maximum is ${maxFiles} files.` };
+  }
+
+  let totalBytes = 0;
+  const files: UploadedFile[] = [];
+  for (const entry of entries) {
+    const name = entry.name || "file";
+    const mimeType = resolveFileType(name, entry.type);
+    if (!mimeType) {
+      return { error: `${name}: this file type is not supported. Attach images, text, CSV, JSON, PDF or Office documents.` };
+    }
+    if (entry.size === 0) {
+      return { error: `${name} is empty` };
+    }
+    if (entry.size > maxFileBytes) {
+      return { error: `${name} is too large. Maximum size is ${formatBytes(maxFileBytes)}.` };
+    }
+    totalBytes += entry.size;
+    if (totalBytes > maxTotalBytes) {
+      return { error: `Attached files are too large together. Maximum is ${formatBytes(maxTotalBytes)} in total.` };
+    }
+
+    files.push({ name, mimeType, size: entry.size, bytes: new Uint8Array(await entry.arrayBuffer()) });
+  }
+
+  return { upload: { fields, files } };
+}
+
+/**
+ * Sort uploaded files into images for the model and document text for the
+ * prompt. Documents share DOCUMENT_TOKEN_BUDGET: each gets an even share of
+ * what is left, so a short file leaves more room for the next. Files whose
+ * text can't be extracted are described by name, type and size.
+ */
+export async function processUploadedFiles(files: UploadedFile[]): Promise<ProcessedFiles> {
+  const images: RawImage[] = [];
+  const documents = files.filter(file => !isImageType(file.mimeType));
+  const parts: string[] = [];
+  const texts = new Map<UploadedFile, string>();
+  let remainingTokens = getDocumentTokenBudget();
+
+  for (const file of files) {
+    if (isImageType(file.mimeType)) {
+      images.push({ name: file.name, mimeType: file.mimeType, bytes: file.bytes });
+    }
+  }
+
+  for (const [index, file] of documents.entries()) {
+    const extraction = await extractDocument(file);
+    if (!extraction.success) {
+      const note = `[File: ${file.name}] ${file.mimeType}, ${formatBytes(file.size)}. Its content could not be read: ${extraction.error}. Tell the user.`;
+      parts.push(note);
+      texts.set(file, note);
+      continue;
+    }
+
+    const share = Math.floor(remainingTokens / (documents.length - index));
+    const text = formatDocument(file.name, extraction, share);
+    parts.push(text);
+    texts.set(file, text);
+    remainingTokens -= estimateTokens(text);
+  }
+
+  const attachments = files.map(file => ({ ...file, extractedText: texts.get(file) }));
+
+  if (files.length > 0) {
+    console.log("📎 [UPLOAD] Processed", files.length, "file(s):", images.length, "image(s),", documents.length, "document(s)");
+  }
+  return { images, fileContent: parts.join("\n\n"), attachments };
+}
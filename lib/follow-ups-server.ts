@@ -0,0 +1,79 @@
+/**
+ * Suggested Follow-ups for Next.js API Routes
+ *
+ * After each answer the model proposes a few short prompts the user might send
+ * next. They are streamed as their own frame, saved with the reply and shown
+ * as chips under the latest answer.
+ */
+
+import { getLLMProvider } from "./llm-provider-server";
+
+export const MAX_FOLLOW_UPS = 3;
+const MAX_FOLLOW_UP_LENGTH = 120;
+
+function buildFollowUpPrompt(message: string, aiResponse: string): string {
+  return [
+    `Suggest ${MAX_FOLLOW_UPS - 1} or ${MAX_FOLLOW_UPS} short follow-up messages the user might send next in this conversation.`,
+    "Write them as the user would type them, in the user's language, each under 12 words, and don't repeat what was already answered.",
+    'Reply with a JSON array of strings only, e.g. ["What about tomorrow?", "Compare it with Berlin"]',
+    "",
+    `User: ${message.slice(0, 2000)}`,
+    `Assistant: ${aiResponse.slice(0, 4000)}`,
+    "",
+    "Follow-ups:"
+  ].join('\n');
+}
+
+/**
+ * Read the suggestions from a model reply. Only a JSON array of strings
+ * counts (code fences around it are fine); anything else gives none.
+ */
+export function parseFollowUps(reply: string): string[] {
+  const array = reply.match(/\[[\s\S]*\]/)?.[0];
+  if (!array) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(array);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const followUps: string[] = [];
+  for (const item of parsed) {
+    if (typeof item !== "string") continue;
+    const text = item.replace(/\s+/g, ' ').trim();
+    if (!text || text.length > MAX_FOLLOW_UP_LENGTH) continue;
+    if (followUps.some(existing => existing.toLowerCase() === text.toLowerCase())) continue;
+    followUps.push(text);
+  }
+  return followUps.slice(0, MAX_FOLLOW_UPS);
+}
+
+/**
+ * Suggest follow-ups for an answer. Errors are logged and give none - the
+ * answer itself is never affected.
+ */
+export async function generateFollowUps(message: string, aiResponse: string, signal?: AbortSignal): Promise<string[]> {
+  try {
+    const result = await getLLMProvider().generate({
+      prompt: buildFollowUpPrompt(message, aiResponse),
+      signal
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || "Follow-up generation failed");
+    }
+    return parseFollowUps(result.reply || '');
+  } catch (error: any) {
+    if (!signal?.aborted) {
+      console.error("❌ [FOLLOW-UPS] Could not suggest follow-ups:", error.message || error);
+    }
+    return [];
+  }
+}
@@ -2,26 +2,89 @@
  * Gemini AI Server Utility for Next.js API Routes
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, FunctionCallingMode, TaskType } from "@google/generative-ai";
+import type { Content, GenerateContentRequest } from "@google/generative-ai";
+import type { EmbeddingTask, LLMProvider, LLMRequest, GenerateResult, StreamResult, StreamEvent, TranscriptionRequest, TranscriptionResult } from "./llm-provider-server";
+import { checkEmbeddings, estimateTokens, toConversation } from "./llm-provider-server";
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 const MODEL_NAME = "gemini-2.5-flash";
-
-if (!GEMINI_API_KEY) {
-  console.error("❌ GEMINI_API_KEY is missing in environment variables");
-}
+// 768 dimensions, matching EMBEDDING_DIMENSIONS
+const EMBEDDING_MODEL_NAME = "text-embedding-004";
+// Texts per batchEmbedContents call
+const EMBEDDING_BATCH_SIZE = 100;
+const TRANSCRIPTION_PROMPT = "Transcribe the speech in this recording word for word. Reply with the transcript only, without quotes, speaker labels or timestamps. If nobody speaks, reply with an empty message.";
 
 const genAI = GEMINI_API_KEY ? new GoogleGenerativeAI(GEMINI_API_KEY) : null;
-const model = genAI ? genAI.getGenerativeModel({ model: MODEL_NAME }) : null;
+const model = genAI
+  ? genAI.getGenerativeModel({ model: process.env.LLM_MODEL || MODEL_NAME })
+  : null;
 
-export async function generateResponse(userMessage: string) {
+function getModel() {
   if (!genAI || !model) {
+    console.error("❌ GEMINI_API_KEY is missing in environment variables");
     throw new Error("Gemini API key not configured");
   }
+  return model;
+}
+
+/**
+ * Map a provider-neutral request to a Gemini request
+ * (assistant turns use the "model" role; tool rounds follow the final user turn)
+ */
+function toGeminiRequest(request: LLMRequest): GenerateContentRequest {
+  const contents: Content[] = toConversation(request).map(turn => ({
+    role: turn.role === "assistant" ? "model" : "user",
+    parts: [{ text: turn.content }]
+  }));
+
+  // Attached images go with the final user turn, after its text
+  if (request.images?.length) {
+    contents[contents.length - 1].parts.push(
+      ...request.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))
+    );
+  }
+
+  for (const step of request.toolSteps || []) {
+    contents.push({
+      role: "model",
+      parts: step.calls.map(call => ({ functionCall: { name: call.name, args: call.args } }))
+    });
+    contents.push({
+      role: "function",
+      parts: step.results.map(result => ({ functionResponse: { name: result.name, response: result.result } }))
+    });
+  }
+
+  const geminiRequest: GenerateContentRequest = { contents };
+
+  if (request.system) {
+    geminiRequest.systemInstruction = request.system;
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    geminiRequest.tools = [{
+      // Our JSON schemas use the same lowercase type names as Gemini's SchemaType
+      functionDeclarations: request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters as any
+      }))
+    }];
+
+    if (request.toolChoice === "none") {
+      geminiRequest.toolConfig = { functionCallingConfig: { mode: FunctionCallingMode.NONE } };
+    }
+  }
 
+  return geminiRequest;
+}
+
+export async function generateResponse(request: LLMRequest): Promise<GenerateResult> {
   try {
-    const result = await model.generateContent(userMessage);
-    
+    const gemini = getModel();
+    const result = await gemini.generateContent(toGeminiRequest(request), { signal: request.signal });
+
     if (!result?.response) {
       throw new Error("Empty response from Gemini");
     }
@@ -30,12 +93,127 @@ export async function generateResponse(userMessage: string) {
     return { success: true, reply };
   } catch (error: any) {
     console.error("❌ Gemini API error:", error);
-    return { 
-      success: false, 
-      error: error.message || "Failed to generate response" 
+    return {
+      success: false,
+      error: error.message || "Failed to generate response"
     };
   }
 }
 
-export { MODEL_NAME };
+/**
+ * Start a streaming generation. Resolves once Gemini has accepted the request,
+ * so setup failures are reported before any bytes are sent to the client.
+ * The returned stream yields text deltas and function calls as they arrive.
+ */
+export async function streamResponse(request: LLMRequest): Promise<StreamResult> {
+  try {
+    const gemini = getModel();
+    const result = await gemini.generateContentStream(toGeminiRequest(request), { signal: request.signal });
+
+    async function* events(): AsyncGenerator<StreamEvent> {
+      let callIndex = 0;
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          yield { type: "text", text };
+        }
+        // Gemini does not assign call IDs, so number them per response
+        for (const functionCall of chunk.functionCalls() || []) {
+          yield {
+            type: "tool-call",
+            call: {
+              id: `call-${callIndex++}`,
+              name: functionCall.name,
+              args: (functionCall.args || {}) as Record<string, any>
+            }
+          };
+        }
+      }
+    }
+
+    return { success: true, stream: events() };
+  } catch (error: any) {
+    console.error("❌ Gemini API error:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to generate response"
+    };
+  }
+}
+
+export async function countTokens(text: string): Promise<number> {
+  try {
+    const { totalTokens } = await getModel().countTokens(text);
+    return totalTokens;
+  } catch (error: any) {
+    console.warn("⚠️ Gemini token count failed, using estimate:", error.message);
+    return estimateTokens(text);
+  }
+}
+
+export async function embedTexts(texts: string[], task: EmbeddingTask, signal?: AbortSignal): Promise<number[][]> {
+  if (!genAI) {
+    console.error("❌ GEMINI_API_KEY is missing in environment variables");
+    throw new Error("Gemini API key not configured");
+  }
+
+  const embeddingModel = genAI.getGenerativeModel({ model: process.env.EMBEDDING_MODEL || EMBEDDING_MODEL_NAME });
+  const taskType = task === "query" ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+  const embeddings: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const { embeddings: batch } = await embeddingModel.batchEmbedContents({
+      requests: texts.slice(start, start + EMBEDDING_BATCH_SIZE).map(text => ({
+        content: { role: "user", parts: [{ text }] },
+        taskType
+      }))
+    }, { signal });
+    embeddings.push(...batch.map(embedding => embedding.values));
+  }
+
+  return checkEmbeddings(embeddings, texts.length);
+}
+
+// Gemini models take audio as input, so the chat model transcribes unless TRANSCRIPTION_MODEL is set
+export async function transcribeAudio({ audio, language, signal }: TranscriptionRequest): Promise<TranscriptionResult> {
+  try {
+    if (!genAI) {
+      console.error("❌ GEMINI_API_KEY is missing in environment variables");
+      throw new Error("Gemini API key not configured");
+    }
+
+    const transcriptionModel = genAI.getGenerativeModel({
+      model: process.env.TRANSCRIPTION_MODEL || process.env.LLM_MODEL || MODEL_NAME
+    });
+    const result = await transcriptionModel.generateContent({
+      contents: [{
+        role: "user",
+        parts: [
+          { inlineData: { mimeType: audio.mimeType, data: Buffer.from(audio.bytes).toString("base64") } },
+          { text: language ? `${TRANSCRIPTION_PROMPT} The speaker most likely uses the language with ISO 639-1 code "${language}".` : TRANSCRIPTION_PROMPT }
+        ]
+      }],
+      generationConfig: { temperature: 0 }
+    }, { signal });
 
+    return { success: true, text: result.response.text().trim() };
+  } catch (error: any) {
+    console.error("❌ Gemini transcription error:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to transcribe audio"
+    };
+  }
+}
+
+export const geminiProvider: LLMProvider = {
+  name: "gemini",
+  model: process.env.LLM_MODEL || MODEL_NAME,
+  generate: generateResponse,
+  stream: streamResponse,
+  countTokens,
+  embed: embedTexts,
+  transcribe: transcribeAudio
+};
+
+export { MODEL_NAME };
@@ -0,0 +1,152 @@
+/**
+ * Image Attachments for Next.js API Routes
+ *
+ * Turns images the user attached into inline image parts the model can see.
+ * Each image is rotated upright (EXIF), scaled down to fit
+ * IMAGE_MAX_DIMENSION (default 1536px) and re-encoded as JPEG, or PNG when it
+ * has transparency, so every provider gets a format it accepts.
+ *
+ * Resizing uses `sharp` when it is installed (Next.js ships it as an optional
+ * dependency). Without it, JPEG, PNG and WebP images are passed through as
+ * they are and other formats are refused.
+ */
+
+import type { ImageInput } from "./llm-provider-server";
+
+/** An uploaded image before normalisation */
+export interface RawImage {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export const MAX_IMAGES_PER_MESSAGE = 4;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Formats sharp can decode; the model only ever receives JPEG or PNG
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic", "image/heif", "image/avif", "image/tiff", "image/bmp"];
+// What can be sent unchanged when sharp is missing
+const PASSTHROUGH_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const DEFAULT_MAX_DIMENSION = 1536;
+const JPEG_QUALITY = 85;
+
+type Sharp = typeof import("sharp");
+let sharpModule: Promise<Sharp | null> | null = null;
+
+function loadSharp(): Promise<Sharp | null> {
+  if (!sharpModule) {
+    sharpModule = import("sharp")
+      .then(module => ((module as any).default ?? module) as Sharp)
+      .catch((error: any) => {
+        console.warn("⚠️ [IMAGES] sharp is not available, images are sent without resizing:", error.message);
+        return null;
+      });
+  }
+  return sharpModule;
+}
+
+function maxDimension(): number {
+  const value = Number(process.env.IMAGE_MAX_DIMENSION);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_DIMENSION;
+}
+
+export function isImageType(mimeType: string): boolean {
+  return ACCEPTED_TYPES.includes(mimeType.toLowerCase());
+}
+
+async function normalizeImage(image: RawImage, sharp: Sharp | null): Promise<ImageInput> {
+  if (!sharp) {
+    return { name: image.name, mimeType: image.mimeType.toLowerCase(), data: Buffer.from(image.bytes).toString("base64") };
+  }
+
+  const size = maxDimension();
+  // Only the first frame of an animation is kept
+  const pipeline = sharp(image.bytes, { animated: false })
+    .rotate()
+    .resize({ width: size, height: size, fit: "inside", withoutEnlargement: true });
+  const { hasAlpha } = await pipeline.metadata();
+
+  const output = hasAlpha
+    ? await pipeline.png().toBuffer()
+    : await pipeline.flatten({ background: "#ffffff" }).jpeg({ quality: JPEG_QUALITY }).toBuffer();
+
+  return {
+    name: image.name,
+    mimeType: hasAlpha ? "image/png" : "image/jpeg",
+    data: output.toString("base64")
+  };
+}
+
+/**
+ * Validate and normalise attached images. Returns the images ready for the
+ * model, or an error message describing the first problem found.
+ */
+export async function prepareImages(images: RawImage[]): Promise<{ images: ImageInput[]; error?: string }> {
+  if (images.length > MAX_IMAGES_PER_MESSAGE) {
+    return { images: [], error: `At most ${MAX_IMAGES_PER_MESSAGE} images can be attached to a message` };
+  }
+
+  for (const image of images) {
+    if (!isImageType(image.mimeType)) {
+      return { images: [], error: `${image.name}: ${image.mimeType || "unknown type"} is not a supported image format` };
+    }
+    if (image.bytes.length === 0) {
+      return { images: [], error: `${image.name} is empty` };
+    }
+    if (image.bytes.length > MAX_IMAGE_BYTES) {
+      return { images: [], error: `${image.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024}MB` };
+    }
+  }
+
+  if (images.length === 0) {
+    return { images: [] };
+  }
+
+  const sharp = await loadSharp();
+  const prepared: ImageInput[] = [];
+  for (const image of images) {
+    if (!sharp && !PASSTHROUGH_TYPES.includes(image.mimeType.toLowerCase())) {
+      return { images: [], error: `${image.name}: ${image.mimeType} images can't be read on this server; use JPEG, PNG or WebP` };
+    }
+
+    try {
+      prepared.push(await normalizeImage(image, sharp));
+    } catch (error: any) {
+      console.error("❌ [IMAGES] Could not process image:", image.name, error.message);
+      return { images: [], error: `${image.name} could not be read as an image` };
+    }
+  }
+
+  console.log("🖼️ [IMAGES] Prepared", prepared.length, "image(s) for the model");
+  return { images: prepared };
+}
+
+/**
+ * Read images sent in a JSON body as `[{ name, mimeType, data }]`, where
+ * `data` is base64 or a `data:` URL. Returns null if the shape is wrong.
+ */
+export function parseJsonImages(value: unknown): RawImage[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const images: RawImage[] = [];
+  for (const [index, item] of value.entries()) {
+    if (!item || typeof item !== "object" || typeof item.data !== "string") {
+      return null;
+    }
+
+    const dataUrl = item.data.match(/^data:([^;,]+);base64,([\s\S]*)$/);
+    const mimeType = typeof item.mimeType === "string" ? item.mimeType : dataUrl?.[1];
+    if (!mimeType) {
+      return null;
+    }
+
+    images.push({
+      name: typeof item.name === "string" && item.name ? item.name : `image-${index + 1}`,
+      mimeType,
+      bytes: Buffer.from(dataUrl ? dataUrl[2] : item.data, "base64")
+    });
+  }
+  return images;
+}
@@ -0,0 +1,246 @@
+/**
+ * LLM Provider Layer for Next.js API Routes
+ *
+ * Every backend (Gemini, OpenAI, OpenAI-compatible/Ollama, mock) implements the
+ * same interface so routes never talk to a vendor SDK directly.
+ *
+ * Select the backend with LLM_PROVIDER=gemini|openai|ollama|mock (default: gemini).
+ * LLM_MODEL overrides the provider's default model, EMBEDDING_MODEL its
+ * default embedding model and TRANSCRIPTION_MODEL its speech-to-text model.
+ */
+
+import { geminiProvider } from "./gemini-server";
+import { createOpenAIProvider } from "./openai-server";
+import { createMockProvider } from "./mock-llm-server";
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** An image the model sees alongside the prompt */
+export interface ImageInput {
+  name: string;
+  /** "image/jpeg" or "image/png" once normalised */
+  mimeType: string;
+  /** Base64-encoded bytes */
+  data: string;
+}
+
+/** Recorded speech to transcribe */
+export interface AudioInput {
+  name: string;
+  /** e.g. "audio/webm", without codec parameters */
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export interface TranscriptionRequest {
+  audio: AudioInput;
+  /** ISO 639-1 code of the spoken language, if known */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  success: boolean;
+  /** The spoken text ("" if nothing was said) */
+  text?: string;
+  error?: string;
+}
+
+/** A function the model may call, described with a JSON schema */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  /** What the model sees */
+  result: Record<string, any>;
+  /** Structured tool output for the client; never sent to the model */
+  data?: Record<string, any>;
+}
+
+/** One round of the tool loop: the calls the model made and their results */
+export interface ToolStep {
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
+export interface LLMRequest {
+  /** The current user turn */
+  prompt: string;
+  /** Images attached to the current user turn */
+  images?: ImageInput[];
+  /** Earlier turns of the conversation, oldest first */
+  history?: ChatTurn[];
+  /** System instruction (persona, custom instructions, remembered facts) */
+  system?: string;
+  /** Tools the model may call while answering the prompt */
+  tools?: ToolDeclaration[];
+  /** "none" keeps tools declared but forces a text answer (default: "auto") */
+  toolChoice?: "auto" | "none";
+  /** Tool rounds already completed for the prompt, oldest first */
+  toolSteps?: ToolStep[];
+  /** Cancels the provider call (e.g. when the user stops generation) */
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+  success: boolean;
+  reply?: string;
+  error?: string;
+}
+
+export type StreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; call: ToolCall };
+
+export interface StreamResult {
+  success: boolean;
+  /** Yields text deltas and tool calls as the model produces them */
+  stream?: AsyncIterable<StreamEvent>;
+  error?: string;
+}
+
+/** What a text is embedded for: a search query, or a passage to be found */
+export type EmbeddingTask = "query" | "document";
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  generate(request: LLMRequest): Promise<GenerateResult>;
+  /** Resolves once the backend accepted the request, before any text is produced */
+  stream(request: LLMRequest): Promise<StreamResult>;
+  /** Tokens the text takes up for this model (estimateTokens where the backend cannot count) */
+  countTokens(text: string): Promise<number>;
+  /**
+   * One EMBEDDING_DIMENSIONS-long vector per text, in order. Throws if the
+   * backend fails or returns vectors of another length.
+   */
+  embed(texts: string[], task: EmbeddingTask, signal?: AbortSignal): Promise<number[][]>;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export type LLMProviderName = "gemini" | "openai" | "ollama" | "mock";
+
+const PROVIDER_NAMES: LLMProviderName[] = ["gemini", "openai", "ollama", "mock"];
+
+// Length of every embedding; the pgvector column in supabase-schema.sql has the same size
+export const EMBEDDING_DIMENSIONS = 768;
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Rough token estimate (~4 characters per token) for backends without a
+ * token counting endpoint.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Full turn list for a request: history followed by the prompt as the final
+ * user turn. Providers expect the conversation to open with a user turn and to
+ * alternate roles, so leading assistant turns are dropped and consecutive
+ * same-role turns are merged.
+ */
+export function toConversation({ prompt, history = [] }: LLMRequest): ChatTurn[] {
+  const turns: ChatTurn[] = [];
+
+  for (const turn of [...history, { role: "user" as const, content: prompt }]) {
+    if (turns.length === 0 && turn.role !== "user") {
+      continue;
+    }
+
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === turn.role) {
+      previous.content += `\n\n${turn.content}`;
+    } else {
+      turns.push({ role: turn.role, content: turn.content });
+    }
+  }
+
+  return turns;
+}
+
+/** Check a backend's embeddings before they are stored or compared */
+export function checkEmbeddings(embeddings: number[][], count: number): number[][] {
+  if (embeddings.length !== count) {
+    throw new Error(`Expected ${count} embeddings, got ${embeddings.length}`);
+  }
+  const wrongSize = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+  if (wrongSize) {
+    throw new Error(`Embedding model returned ${wrongSize.length} dimensions, expected ${EMBEDDING_DIMENSIONS}; set EMBEDDING_MODEL to a ${EMBEDDING_DIMENSIONS}-dimension model`);
+  }
+  return embeddings;
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({
+        name: "openai",
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL,
+        model: process.env.LLM_MODEL || "gpt-4o-mini",
+        embeddingModel: process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+        transcriptionModel: process.env.TRANSCRIPTION_MODEL || "whisper-1",
+        transcriptionBaseURL: process.env.TRANSCRIPTION_BASE_URL,
+        compatibility: "strict"
+      });
+    case "ollama":
+      return createOpenAIProvider({
+        name: "ollama",
+        // Ollama ignores the key, but the OpenAI client insists on one
+        apiKey: process.env.OLLAMA_API_KEY || "ollama",
+        baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.LLM_MODEL || "llama3.1",
+        embeddingModel: process.env.EMBEDDING_MODEL || "nomic-embed-text",
+        // Ollama has no speech-to-text; TRANSCRIPTION_BASE_URL can name a local Whisper server
+        transcriptionModel: process.env.TRANSCRIPTION_MODEL || "whisper-1",
+        transcriptionBaseURL: process.env.TRANSCRIPTION_BASE_URL,
+        compatibility: "compatible"
+      });
+    case "mock":
+      return createMockProvider({
+        scriptPath: process.env.MOCK_LLM_SCRIPT,
+        delayMs: Number(process.env.MOCK_LLM_DELAY_MS) || 0
+      });
+    case "gemini":
+    default:
+      return geminiProvider;
+  }
+}
+
+/**
+ * Get the configured LLM provider (created once per server instance)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (activeProvider) {
+    return activeProvider;
+  }
+
+  const configured = (process.env.LLM_PROVIDER || "gemini").toLowerCase().trim();
+  const name = PROVIDER_NAMES.includes(configured as LLMProviderName)
+    ? (configured as LLMProviderName)
+    : "gemini";
+
+  if (name !== configured) {
+    console.warn(`⚠️ Unknown LLM_PROVIDER "${configured}", falling back to gemini`);
+  }
+
+  activeProvider = createProvider(name);
+  console.log(`🤖 Using LLM provider: ${activeProvider.name} (${activeProvider.model})`);
+  return activeProvider;
+}
@@ -0,0 +1,336 @@
+/**
+ * Message Tree for Next.js API Routes
+ *
+ * Messages form a tree: each message's `parent_id` is the message it follows
+ * (the first message of a chat has none). Regenerating a reply or editing a
+ * user message adds a sibling, which starts a new branch. Among siblings
+ * exactly one is `is_active`; following active children from the root gives
+ * the branch that is shown and used as context.
+ */
+
+import { supabase } from "./supabase-server";
+import type { Source } from "./tools";
+
+/** "stopped" marks a partial reply the user cancelled */
+export type MessageStatus = "complete" | "stopped";
+
+/** How a reply ended and the sources it cites */
+export interface ReplyDetails {
+  status: MessageStatus;
+  sources: Source[];
+}
+
+export interface StoredChatMessage {
+  id: string;
+  chat_id: string;
+  role: "user" | "assistant";
+  content: string;
+  parent_id: string | null;
+  is_active: boolean;
+  status: MessageStatus;
+  /** Search results the reply cites as [n]; empty for user messages */
+  sources: Source[];
+  /** Suggested next prompts; empty for user messages */
+  follow_ups: string[];
+  created_at: string;
+}
+
+/** A message as returned to the client, with the IDs of its siblings (itself included) in order */
+export type BranchMessage = StoredChatMessage & { siblingIds: string[] };
+
+export const MESSAGE_COLUMNS = 'id, chat_id, role, content, parent_id, is_active, status, sources, follow_ups, created_at';
+
+/**
+ * Load a message together with its chat, checking the chat belongs to the user.
+ * Returns null if either doesn't exist or isn't theirs.
+ */
+export async function getOwnedMessage(userId: string, messageId: string): Promise<{ message: StoredChatMessage; chat: any } | null> {
+  const { data: message, error } = await (supabase as any)
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!message) {
+    return null;
+  }
+
+  const { data: chat, error: chatError } = await (supabase as any)
+    .from('chats')
+    .select('id, summary, summarized_until, use_documents')
+    .eq('id', message.chat_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (chatError) {
+    throw chatError;
+  }
+
+  return chat ? { message, chat } : null;
+}
+
+/** All messages of a chat, oldest first */
+export async function loadChatMessages(chatId: string): Promise<StoredChatMessage[]> {
+  const { data, error } = await (supabase as any)
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+function childrenByParent(messages: StoredChatMessage[]): Map<string | null, StoredChatMessage[]> {
+  const children = new Map<string | null, StoredChatMessage[]>();
+  for (const msg of messages) {
+    const siblings = children.get(msg.parent_id) || [];
+    siblings.push(msg);
+    children.set(msg.parent_id, siblings);
+  }
+  return children;
+}
+
+/**
+ * The active branch of one chat's messages (oldest first), each annotated
+ * with its siblings. If several siblings claim to be active, the newest wins.
+ */
+export function activeBranch(messages: StoredChatMessage[]): BranchMessage[] {
+  const children = childrenByParent(messages);
+  const branch: BranchMessage[] = [];
+  const visited = new Set<string>();
+  let siblings = children.get(null) || [];
+
+  while (siblings.length > 0) {
+    const active = siblings.filter(msg => msg.is_active !== false);
+    const candidates = active.length > 0 ? active : siblings;
+    const chosen = candidates[candidates.length - 1];
+
+    // Guard against cycles in corrupted data
+    if (visited.has(chosen.id)) {
+      break;
+    }
+    visited.add(chosen.id);
+
+    branch.push({ ...chosen, siblingIds: siblings.map(msg => msg.id) });
+    siblings = children.get(chosen.id) || [];
+  }
+
+  return branch;
+}
+
+/** The path from the root of a chat down to (and including) a message */
+export function pathTo(messages: StoredChatMessage[], messageId: string): StoredChatMessage[] {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: StoredChatMessage[] = [];
+  let current = byId.get(messageId);
+
+  while (current && path.length <= messages.length) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+}
+
+export async function getActiveBranch(chatId: string): Promise<BranchMessage[]> {
+  return activeBranch(await loadChatMessages(chatId));
+}
+
+/** The last message of the active branch, which a new message follows */
+export async function getActiveLeafId(chatId: string): Promise<string | null> {
+  const branch = await getActiveBranch(chatId);
+  return branch.length > 0 ? branch[branch.length - 1].id : null;
+}
+
+/**
+ * Whether the chat summary already covers `parent`, so a branch starting
+ * below it would get a summary of the old branch (a null parent is the root)
+ */
+export function summaryCovers(chat: any, parent: StoredChatMessage | null): boolean {
+  return !!chat.summarized_until && (!parent || parent.created_at < chat.summarized_until);
+}
+
+/**
+ * Drop the chat summary if the branch changed at a point it already covers,
+ * so it is rebuilt from the new branch instead of describing the old one.
+ * Also clears it on the passed chat, which callers go on to build context from.
+ */
+async function resetSummaryIfDiverged(chat: any, parent: StoredChatMessage | null): Promise<void> {
+  if (!summaryCovers(chat, parent)) {
+    return;
+  }
+
+  const { error } = await (supabase as any)
+    .from('chats')
+    .update({ summary: null, summarized_until: null })
+    .eq('id', chat.id);
+
+  if (error) {
+    throw error;
+  }
+
+  chat.summary = null;
+  chat.summarized_until = null;
+  console.log("📝 [SUMMARY] Branch changed before summarized point, summary reset for chat:", chat.id);
+}
+
+export async function getMessage(messageId: string | null): Promise<StoredChatMessage | null> {
+  if (!messageId) {
+    return null;
+  }
+
+  const { data, error } = await (supabase as any)
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/** Make a message the chosen one among its siblings */
+async function setActiveSibling(message: Pick<StoredChatMessage, 'id' | 'chat_id' | 'parent_id'>): Promise<void> {
+  let deactivate = (supabase as any)
+    .from('messages')
+    .update({ is_active: false })
+    .eq('chat_id', message.chat_id)
+    .neq('id', message.id);
+
+  deactivate = message.parent_id
+    ? deactivate.eq('parent_id', message.parent_id)
+    : deactivate.is('parent_id', null);
+
+  const { error: deactivateError } = await deactivate;
+  if (deactivateError) {
+    throw deactivateError;
+  }
+
+  const { error } = await (supabase as any)
+    .from('messages')
+    .update({ is_active: true })
+    .eq('id', message.id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Add a sibling of `original` (a regenerated reply or an edited user message)
+ * and make it active. The new message starts a branch with no children yet.
+ */
+export async function addSibling(
+  chat: any,
+  original: StoredChatMessage,
+  content: string,
+  { status = "complete", sources = [] }: Partial<ReplyDetails> = {}
+): Promise<StoredChatMessage> {
+  const { data, error } = await (supabase as any)
+    .from('messages')
+    .insert({
+      chat_id: original.chat_id,
+      role: original.role,
+      content,
+      parent_id: original.parent_id,
+      is_active: true,
+      status,
+      sources
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  await setActiveSibling(data);
+  await resetSummaryIfDiverged(chat, await getMessage(original.parent_id));
+
+  await (supabase as any)
+    .from('chats')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', original.chat_id);
+
+  return data;
+}
+
+/** Add a reply below a message on its branch */
+export async function addReply(
+  parent: StoredChatMessage,
+  content: string,
+  { status = "complete", sources = [] }: Partial<ReplyDetails> = {}
+): Promise<StoredChatMessage> {
+  const { data, error } = await (supabase as any)
+    .from('messages')
+    .insert({
+      chat_id: parent.chat_id,
+      role: 'assistant',
+      content,
+      parent_id: parent.id,
+      status,
+      sources
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/** Store the follow-ups suggested under a saved reply */
+export async function setFollowUps(messageId: string, followUps: string[]): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('messages')
+    .update({ follow_ups: followUps })
+    .eq('id', messageId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/** IDs of a message's siblings (itself included), oldest first */
+export async function listSiblingIds(message: Pick<StoredChatMessage, 'chat_id' | 'parent_id'>): Promise<string[]> {
+  let query = (supabase as any)
+    .from('messages')
+    .select('id')
+    .eq('chat_id', message.chat_id);
+
+  query = message.parent_id
+    ? query.eq('parent_id', message.parent_id)
+    : query.is('parent_id', null);
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map((row: any) => row.id);
+}
+
+/**
+ * Switch to the branch through a message: it becomes the active sibling,
+ * and below it the branch continues where it was last left.
+ * Returns the chat's new active branch.
+ */
+export async function activateMessage(chat: any, message: StoredChatMessage): Promise<BranchMessage[]> {
+  await setActiveSibling(message);
+  await resetSummaryIfDiverged(chat, await getMessage(message.parent_id));
+
+  return getActiveBranch(message.chat_id);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mock-llm-server";
+import type { LLMRequest, StreamEvent, ToolStep } from "./llm-provider-server";
+
+const provider = createMockProvider({
+  script: { rules: [{ match: "weather", reply: "It is sunny.", toolCall: { name: "get_weather", args: { location: "Paris" } } }] }
+});
+
+const tools = [{ name: "get_weather", description: "Current weather", parameters: { type: "object", properties: {} } }];
+
+async function firstEvent(request: LLMRequest): Promise<StreamEvent | undefined> {
+  const result = await provider.stream(request);
+  if (!result.success || !result.stream) throw new Error(result.error);
+  for await (const event of result.stream) {
+    return event;
+  }
+}
+
+function stepOf(name: string): ToolStep {
+  return { calls: [{ id: `${name}-0`, name, args: {} }], results: [{ callId: `${name}-0`, name, result: {} }] };
+}
+
+describe("mock provider tool calls", () => {
+  it("calls the scripted tool after steps the route ran up front", async () => {
+    const event = await firstEvent({ prompt: "What is the weather?", tools, toolSteps: [stepOf("search_documents")] });
+    expect(event).toEqual({ type: "tool-call", call: { id: "call-0", name: "get_weather", args: { location: "Paris" } } });
+  });
+
+  it("replies once the scripted tool has run", async () => {
+    const event = await firstEvent({ prompt: "What is the weather?", tools, toolSteps: [stepOf("search_documents"), stepOf("get_weather")] });
+    expect(event).toEqual({ type: "text", text: "It " });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Mock LLM Provider for offline development
+ *
+ * Replies are deterministic: the first scripted rule whose `match` appears in the
+ * prompt (case-insensitive) wins, otherwise the default reply is used.
+ *
+ * MOCK_LLM_SCRIPT may point at a JSON file shaped like:
+ *   { "rules": [{ "match": "weather", "reply": "It is sunny." }], "default": "OK" }
+ *
+ * A rule with `toolCall` ({ "name": "get_weather", "args": { "location": "Paris" } })
+ * first calls that tool (when offered), then streams `reply` once the result is in.
+ *
+ * Embeddings hash each word into one of EMBEDDING_DIMENSIONS buckets, so texts
+ * sharing words come out similar and document search works offline.
+ *
+ * Recordings are transcribed as the script's `transcript`, or as a line naming
+ * the file and its size.
+ */
+
+import fs from "fs";
+import type { LLMProvider, LLMRequest, GenerateResult, StreamResult, StreamEvent, TranscriptionRequest, TranscriptionResult } from "./llm-provider-server";
+import { EMBEDDING_DIMENSIONS, estimateTokens } from "./llm-provider-server";
+
+export interface MockScriptRule {
+  match: string;
+  reply: string;
+  toolCall?: { name: string; args: Record<string, any> };
+}
+
+export interface MockScript {
+  rules?: MockScriptRule[];
+  default?: string;
+  /** What every recording is transcribed as */
+  transcript?: string;
+}
+
+interface MockProviderOptions {
+  script?: MockScript;
+  scriptPath?: string;
+  /** Delay between streamed chunks, to mimic a real model */
+  delayMs?: number;
+}
+
+function loadScript(scriptPath?: string): MockScript {
+  if (!scriptPath) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+  } catch (error: any) {
+    console.error("❌ Failed to load mock LLM script:", error.message);
+    return {};
+  }
+}
+
+/** Bag-of-words vector: word counts hashed into buckets, scaled to length 1 */
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    }
+    vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+export function createMockProvider(options: MockProviderOptions = {}): LLMProvider {
+  const script = options.script || loadScript(options.scriptPath);
+  const delayMs = options.delayMs || 0;
+
+  const ruleFor = (prompt: string): MockScriptRule | undefined => {
+    const lowerPrompt = prompt.toLowerCase();
+    return script.rules?.find(r => lowerPrompt.includes(r.match.toLowerCase()));
+  };
+
+  const replyFor = (prompt: string, imageCount = 0): string => {
+    const rule = ruleFor(prompt);
+    if (rule) {
+      return rule.reply;
+    }
+    if (script.default) {
+      return script.default;
+    }
+
+    const lastLine = prompt.trim().split("\n").pop() || "";
+    const images = imageCount > 0 ? ` (with ${imageCount} image${imageCount === 1 ? "" : "s"})` : "";
+    return `Mock response to: ${lastLine}${images}`;
+  };
+
+  async function generate({ prompt, images }: LLMRequest): Promise<GenerateResult> {
+    return { success: true, reply: replyFor(prompt, images?.length) };
+  }
+
+  async function stream({ prompt, images, tools, toolSteps, toolChoice, signal }: LLMRequest): Promise<StreamResult> {
+    const toolCall = ruleFor(prompt)?.toolCall;
+    // Call the scripted tool unless it already ran, e.g. for a page the route read up front
+    const shouldCallTool = !!toolCall
+      && !toolSteps?.some(step => step.calls.some(call => call.name === toolCall.name))
+      && toolChoice !== "none"
+      && !!tools?.some(tool => tool.name === toolCall.name);
+    const reply = replyFor(prompt, images?.length);
+
+    async function* events(): AsyncGenerator<StreamEvent> {
+      if (shouldCallTool && toolCall) {
+        yield { type: "tool-call", call: { id: "call-0", name: toolCall.name, args: toolCall.args } };
+        return;
+      }
+
+      // Stream word by word, keeping the whitespace attached to each word
+      for (const piece of reply.match(/\S+\s*/g) || []) {
+        if (delayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+        signal?.throwIfAborted();
+        yield { type: "text", text: piece };
+      }
+    }
+
+    return { success: true, stream: events() };
+  }
+
+  async function transcribe({ audio }: TranscriptionRequest): Promise<TranscriptionResult> {
+    return {
+      success: true,
+      text: script.transcript ?? `Mock transcript of ${audio.name} (${audio.bytes.length} bytes)`
+    };
+  }
+
+  return {
+    name: "mock",
+    model: "mock-scripted",
+    generate,
+    stream,
+    countTokens: async (text: string) => estimateTokens(text),
+    embed: async (texts: string[]) => texts.map(hashEmbedding),
+    transcribe
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * OpenAI Server Utility for Next.js API Routes
+ * Also serves OpenAI-compatible local endpoints such as Ollama (`/v1` API)
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import { embedMany, generateText, streamText, jsonSchema } from "ai";
+import type { CoreMessage, CoreTool } from "ai";
+import type { EmbeddingTask, LLMProvider, LLMRequest, GenerateResult, StreamResult, StreamEvent, TranscriptionRequest, TranscriptionResult } from "./llm-provider-server";
+import { EMBEDDING_DIMENSIONS, checkEmbeddings, estimateTokens, toConversation } from "./llm-provider-server";
+
+interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  embeddingModel: string;
+  transcriptionModel: string;
+  apiKey?: string;
+  baseURL?: string;
+  /** Where `/audio/transcriptions` is served, if not at `baseURL` */
+  transcriptionBaseURL?: string;
+  compatibility: "strict" | "compatible";
+}
+
+/**
+ * Map a provider-neutral request to AI SDK messages and tools
+ * (tool rounds follow the final user turn)
+ */
+function toCallSettings(request: LLMRequest) {
+  const messages: CoreMessage[] = toConversation(request);
+
+  // Attached images go with the final user turn, after its text
+  if (request.images?.length) {
+    const last = messages.length - 1;
+    messages[last] = {
+      role: "user",
+      content: [
+        { type: "text" as const, text: messages[last].content as string },
+        ...request.images.map(image => ({ type: "image" as const, image: image.data, mimeType: image.mimeType }))
+      ]
+    };
+  }
+
+  for (const step of request.toolSteps || []) {
+    messages.push({
+      role: "assistant",
+      content: step.calls.map(call => ({
+        type: "tool-call" as const,
+        toolCallId: call.id,
+        toolName: call.name,
+        args: call.args
+      }))
+    });
+    messages.push({
+      role: "tool",
+      content: step.results.map(result => ({
+        type: "tool-result" as const,
+        toolCallId: result.callId,
+        toolName: result.name,
+        result: result.result
+      }))
+    });
+  }
+
+  let tools: Record<string, CoreTool> | undefined;
+  if (request.tools && request.tools.length > 0) {
+    tools = {};
+    for (const tool of request.tools) {
+      // No `execute`: tool calls are returned to the caller, which runs the tool loop
+      tools[tool.name] = {
+        description: tool.description,
+        parameters: jsonSchema(tool.parameters)
+      };
+    }
+  }
+
+  return {
+    system: request.system,
+    messages,
+    tools,
+    toolChoice: tools ? (request.toolChoice || "auto") : undefined
+  };
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const { name, model: modelName, embeddingModel, transcriptionModel, apiKey, baseURL, transcriptionBaseURL, compatibility } = options;
+
+  const requireApiKey = () => {
+    if (!apiKey) {
+      console.error(`❌ API key for ${name} provider is missing in environment variables`);
+      throw new Error(`${name} API key not configured`);
+    }
+    return apiKey;
+  };
+  const getClient = () => createOpenAI({ apiKey: requireApiKey(), baseURL, compatibility });
+  const getModel = () => getClient()(modelName);
+
+  async function generate(request: LLMRequest): Promise<GenerateResult> {
+    try {
+      const model = getModel();
+      const result = await generateText({ model, ...toCallSettings(request), abortSignal: request.signal });
+      return { success: true, reply: result.text };
+    } catch (error: any) {
+      console.error(`❌ ${name} API error:`, error);
+      return {
+        success: false,
+        error: error.message || "Failed to generate response"
+      };
+    }
+  }
+
+  async function stream(request: LLMRequest): Promise<StreamResult> {
+    try {
+      const model = getModel();
+      const result = await streamText({ model, ...toCallSettings(request), abortSignal: request.signal });
+
+      async function* events(): AsyncGenerator<StreamEvent> {
+        for await (const part of result.fullStream) {
+          if (part.type === "text-delta" && part.textDelta) {
+            yield { type: "text", text: part.textDelta };
+          } else if (part.type === "tool-call") {
+            yield {
+              type: "tool-call",
+              call: { id: part.toolCallId, name: part.toolName, args: part.args as Record<string, any> }
+            };
+          } else if (part.type === "error") {
+            throw part.error instanceof Error ? part.error : new Error(String(part.error));
+          }
+        }
+      }
+
+      return { success: true, stream: events() };
+    } catch (error: any) {
+      console.error(`❌ ${name} API error:`, error);
+      return {
+        success: false,
+        error: error.message || "Failed to generate response"
+      };
+    }
+  }
+
+  // OpenAI embeddings make no difference between queries and documents
+  async function embed(texts: string[], _task: EmbeddingTask, signal?: AbortSignal): Promise<number[][]> {
+    // Only OpenAI's text-embedding-3 models can be shortened to EMBEDDING_DIMENSIONS
+    const model = getClient().textEmbeddingModel(
+      embeddingModel,
+      compatibility === "strict" ? { dimensions: EMBEDDING_DIMENSIONS } : {}
+    );
+    const { embeddings } = await embedMany({ model, values: texts, abortSignal: signal });
+    return checkEmbeddings(embeddings, texts.length);
+  }
+
+  // This AI SDK version has no transcription API, so the endpoint is called directly
+  async function transcribe({ audio, language, signal }: TranscriptionRequest): Promise<TranscriptionResult> {
+    try {
+      const form = new FormData();
+      form.append("file", new Blob([new Uint8Array(audio.bytes)], { type: audio.mimeType }), audio.name);
+      form.append("model", transcriptionModel);
+      if (language) {
+        form.append("language", language);
+      }
+
+      const endpoint = (transcriptionBaseURL || baseURL || "https://api.openai.com/v1").replace(/\/+$/, "");
+      const response = await fetch(`${endpoint}/audio/transcriptions`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${requireApiKey()}` },
+        body: form,
+        signal
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || `Transcription failed with status ${response.status}`);
+      }
+      return { success: true, text: String(data.text ?? "").trim() };
+    } catch (error: any) {
+      console.error(`❌ ${name} transcription error:`, error);
+      return {
+        success: false,
+        error: error.message || "Failed to transcribe audio"
+      };
+    }
+  }
+
+  return {
+    name,
+    model: modelName,
+    generate,
+    stream,
+    countTokens: async (text: string) => estimateTokens(text),
+    embed,
+    transcribe
+  };
+}
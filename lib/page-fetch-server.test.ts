@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchPage } from "./page-fetch-server";
+
+// "rebind.test" resolves to a public address when checked and to loopback when connecting
+vi.mock("dns/promises", () => ({
+  lookup: vi.fn(async () => [{ address: "93.184.216.34", family: 4 }])
+}));
+vi.mock("dns", () => ({
+  default: {
+    lookup: vi.fn((_hostname: string, options: { all?: boolean }, callback: (...args: any[]) => void) => {
+      callback(null, options.all ? [{ address: "127.0.0.1", family: 4 }] : "127.0.0.1", 4);
+    })
+  }
+}));
+
+// Public addresses as IP literals, so no DNS lookup is needed
+const PAGE_HTML = "<html><head><title>Example</title></head><body><article><p>Public page text that is long enough to read.</p></article></body></html>";
+
+function stubFetch(routes: Record<string, () => Response>) {
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const url = String(input);
+    const route = routes[url];
+    if (!route) throw new Error(`Unexpected request to ${url}`);
+    return route();
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchPage robots.txt", () => {
+  it("does not follow a robots.txt redirect to a private address", async () => {
+    const fetchMock = stubFetch({
+      "http://93.184.216.34/robots.txt": () => new Response(null, { status: 302, headers: { location: "http://127.0.0.1/robots.txt" } }),
+      "http://93.184.216.34/page": () => new Response(PAGE_HTML, { headers: { "content-type": "text/html" } })
+    });
+
+    const page = await fetchPage("http://93.184.216.34/page");
+
+    expect(page.success).toBe(true);
+    // Automatic redirects would be followed inside fetch, out of reach of the address check
+    expect(fetchMock).toHaveBeenCalledWith("http://93.184.216.34/robots.txt", expect.objectContaining({ redirect: "manual" }));
+    expect(fetchMock.mock.calls.map(([input]) => String(input))).not.toContain("http://127.0.0.1/robots.txt");
+  });
+
+  it("follows a robots.txt redirect to another public address and applies its rules", async () => {
+    stubFetch({
+      "http://93.184.216.35/robots.txt": () => new Response(null, { status: 301, headers: { location: "http://93.184.216.36/robots.txt" } }),
+      "http://93.184.216.36/robots.txt": () => new Response("User-agent: *\nDisallow: /private\n")
+    });
+
+    const page = await fetchPage("http://93.184.216.35/private/page");
+
+    expect(page.success).toBe(false);
+    expect(page.success ? "" : page.error).toContain("robots.txt");
+  });
+});
+
+describe("fetchPage address checks", () => {
+  it.each([
+    "http://[::ffff:127.0.0.1]/admin",
+    "http://[::ffff:169.254.169.254]/latest/meta-data",
+    "http://0.0.0.1/",
+    "http://100.64.0.1/",
+    "http://198.18.0.1/",
+    "http://240.0.0.1/",
+    "http://[fc00::1]/",
+    "http://[fe80::1]/",
+    "http://[::]/"
+  ])("refuses %s", async url => {
+    const fetchMock = stubFetch({});
+
+    const page = await fetchPage(url);
+
+    expect(page.success ? "" : page.error).toContain("Refusing to read a private address");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("refuses a host that resolves to a private address by the time it connects", async () => {
+    const page = await fetchPage("http://rebind.test/page");
+
+    expect(page.success).toBe(false);
+    expect(page.success ? "" : page.error).toBe("Refusing to read a private address (rebind.test)");
+  });
+});
@@ -0,0 +1,594 @@
+/**
+ * Page Fetch Server Utility for Next.js API Routes
+ *
+ * Downloads a web page and extracts its readable text (readability-style:
+ * boilerplate elements and link-heavy blocks such as menus are dropped).
+ *
+ * Safeguards: only public http(s) hosts, checked again on connect
+ * (PAGE_FETCH_ALLOW_PRIVATE=true lifts this for local development), robots.txt
+ * is honoured, redirects are followed and re-checked, downloads are capped at
+ * PAGE_FETCH_MAX_BYTES and time out after PAGE_FETCH_TIMEOUT_MS, and extracted
+ * text is cut to PAGE_FETCH_MAX_CHARS.
+ */
+
+import dns from "dns";
+import { lookup } from "dns/promises";
+import net from "net";
+import { Agent } from "undici";
+import { createCache } from "./cache-server";
+
+export interface FetchedPage {
+  success: true;
+  /** The URL that was asked for */
+  url: string;
+  /** Where the page ended up after redirects */
+  finalUrl: string;
+  title: string;
+  siteName?: string;
+  byline?: string;
+  excerpt?: string;
+  /** Readable text; headings start with "#", list items with "-" */
+  content: string;
+  /** Length of the full extracted text, before truncation */
+  contentLength: number;
+  truncated: boolean;
+  timestamp: string;
+}
+
+export interface PageFetchError {
+  success: false;
+  url: string;
+  error: string;
+  timestamp: string;
+}
+
+export type PageFetchResult = FetchedPage | PageFetchError;
+
+export interface PageFetchOptions {
+  signal?: AbortSignal;
+  /** Cut the extracted text to this many characters */
+  maxChars?: number;
+}
+
+export interface ReadableContent {
+  title: string;
+  siteName?: string;
+  byline?: string;
+  excerpt?: string;
+  text: string;
+}
+
+const USER_AGENT = 'AI-Orb-Chatbot/1.0';
+// Matched against robots.txt User-agent lines
+const ROBOTS_AGENT = 'ai-orb-chatbot';
+const MAX_REDIRECTS = 5;
+const DEFAULT_MAX_CHARS = 8000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 8000;
+const ROBOTS_TIMEOUT_MS = 3000;
+// Crawlers read at most the first 500KiB of a robots.txt
+const ROBOTS_MAX_BYTES = 500 * 1024;
+
+// Cache for fetched pages and robots.txt rules (null: the site has none)
+const pageCache = createCache<FetchedPage>({
+  namespace: 'fetch_page',
+  ttlMs: 15 * 60 * 1000, // 15 minutes
+  maxEntries: 30
+});
+const robotsCache = createCache<{ rules: RobotsRules | null }>({
+  namespace: 'robots_txt',
+  ttlMs: 60 * 60 * 1000, // 1 hour
+  maxEntries: 100
+});
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * http(s) URLs in a message, in order, without duplicates. Trailing
+ * punctuation (a full stop, closing bracket, ...) is not part of the URL.
+ */
+export function extractUrls(text: string, limit = 3): string[] {
+  const urls: string[] = [];
+  for (const match of text.match(/\bhttps?:\/\/[^\s<>"'`]+/gi) || []) {
+    let url = match.replace(/[.,;:!?]+$/, '');
+    // Drop an unbalanced closing bracket, e.g. "(see https://example.com)"
+    while (/[)\]]$/.test(url) && (url.split(/[(\[]/).length < url.split(/[)\]]/).length)) {
+      url = url.slice(0, -1);
+    }
+    if (!urls.includes(url)) {
+      urls.push(url);
+    }
+    if (urls.length >= limit) break;
+  }
+  return urls;
+}
+
+// ---------------------------------------------------------------------------
+// Safety checks
+// ---------------------------------------------------------------------------
+
+// Local, loopback, link-local (cloud metadata), shared, benchmarking,
+// multicast and reserved ranges. BlockList also matches IPv4-mapped IPv6
+// addresses (::ffff:7f00:1) against the IPv4 rules.
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+// ::/96 holds the unspecified and loopback addresses and the deprecated IPv4-compatible form
+for (const [network, prefix] of [['::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_RANGES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Checks the addresses a connection is actually made to. fetch resolves the
+ * host again after assertPublicUrl, so a DNS record that changes in between
+ * (DNS rebinding) would otherwise reach a private address.
+ */
+const publicAgent = new Agent({
+  connect: {
+    lookup(hostname, options, callback) {
+      dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+          callback(error, '');
+          return;
+        }
+        if (process.env.PAGE_FETCH_ALLOW_PRIVATE !== 'true' && addresses.some(entry => isPrivateAddress(entry.address))) {
+          callback(new Error(`Refusing to read a private address (${hostname})`), '');
+          return;
+        }
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      });
+    }
+  }
+});
+
+/** Refuse URLs that could reach the server's own network */
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be read (got ${url.protocol})`);
+  }
+  if (process.env.PAGE_FETCH_ALLOW_PRIVATE === 'true') {
+    return;
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local') || hostname.endsWith('.internal')) {
+    throw new Error(`Refusing to read a private address (${hostname})`);
+  }
+
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map(entry => entry.address);
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to read a private address (${hostname})`);
+  }
+}
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+/** Rules from robots.txt for our agent, or for "*" if there is no group for us */
+export function parseRobotsTxt(text: string, agent = ROBOTS_AGENT): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+    } else if (current && (field === 'allow' || field === 'disallow')) {
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules[field].push(value);
+      }
+      lastWasAgent = false;
+    } else {
+      lastWasAgent = false;
+    }
+  }
+
+  const own = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+  const chosen = own.length > 0 ? own : groups.filter(group => group.agents.includes('*'));
+  return {
+    allow: chosen.flatMap(group => group.rules.allow),
+    disallow: chosen.flatMap(group => group.rules.disallow)
+  };
+}
+
+function robotsPatternLength(pattern: string, path: string): number {
+  // "*" matches any run of characters and a trailing "$" anchors the end
+  const source = pattern
+    .replace(/[.+?^{}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\\\$$|\$$/, '$');
+  return new RegExp(`^${source}`).test(path) ? pattern.length : -1;
+}
+
+/** The longest matching rule wins; Allow wins a tie */
+export function isAllowedByRobots(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) => Math.max(-1, ...patterns.map(pattern => robotsPatternLength(pattern, path)));
+  const disallowed = longest(rules.disallow);
+  return disallowed === -1 || longest(rules.allow) >= disallowed;
+}
+
+async function getRobotsRules(url: URL, signal?: AbortSignal): Promise<RobotsRules | null> {
+  const cached = await robotsCache.get(url.origin);
+  if (cached) {
+    return cached.rules;
+  }
+
+  let rules: RobotsRules | null = null;
+  try {
+    const requestSignal = signal ? AbortSignal.any([signal, AbortSignal.timeout(ROBOTS_TIMEOUT_MS)]) : AbortSignal.timeout(ROBOTS_TIMEOUT_MS);
+    let current = new URL('/robots.txt', url.origin);
+    let response: Response | null = null;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      // Redirects are followed by hand so none can lead to a private address
+      await assertPublicUrl(current);
+      response = await fetch(current.toString(), {
+        redirect: 'manual',
+        signal: requestSignal,
+        dispatcher: publicAgent,
+        headers: { 'User-Agent': USER_AGENT }
+      } as RequestInit);
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        current = new URL(location, current);
+        response = null;
+        continue;
+      }
+      break;
+    }
+
+    if (response?.ok) {
+      const { bytes } = await readLimited(response, ROBOTS_MAX_BYTES);
+      rules = parseRobotsTxt(new TextDecoder().decode(bytes));
+    }
+  } catch (error: any) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    // Unreachable or slow robots.txt: treat the site as having none
+    console.warn('⚠️ Could not read robots.txt for', url.origin, error.message);
+  }
+
+  await robotsCache.set(url.origin, { rules });
+  return rules;
+}
+
+// ---------------------------------------------------------------------------
+// Download
+// ---------------------------------------------------------------------------
+
+async function readLimited(response: Response, maxBytes: number): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return { bytes: new Uint8Array(), truncated: false };
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    chunks.push(value);
+    size += value.length;
+    if (size >= maxBytes) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, truncated };
+}
+
+function decodeBody(bytes: Uint8Array, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™'
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function metaContent(html: string, key: string): string | undefined {
+  const tag = html.match(new RegExp(`<meta[^>]+(?:property|name)=["']${key}["'][^>]*>`, 'i'))?.[0];
+  const content = tag?.match(/content=["']([^"']*)["']/i)?.[1];
+  return content ? decodeEntities(content).trim() || undefined : undefined;
+}
+
+// Elements that never hold the main content
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'form', 'button', 'select', 'nav', 'header', 'footer', 'aside', 'dialog'];
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'ul', 'ol', 'pre', 'blockquote', 'table', 'tr', 'td', 'th', 'br', 'hr', 'figure', 'figcaption', 'dl', 'dt', 'dd']);
+
+/** The largest element with this tag name, if any */
+function largestElement(html: string, tag: string): string | undefined {
+  const matches = html.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'));
+  return matches?.reduce((largest, match) => match.length > largest.length ? match : largest);
+}
+
+interface TextBlock {
+  tag: string;
+  text: string;
+  linkChars: number;
+}
+
+function splitBlocks(html: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let tag = 'p';
+  let text = '';
+  let linkChars = 0;
+  let inLink = false;
+
+  const flush = (nextTag: string) => {
+    const cleaned = decodeEntities(text).replace(/\s+/g, ' ').trim();
+    if (cleaned) {
+      blocks.push({ tag, text: cleaned, linkChars });
+    }
+    tag = nextTag;
+    text = '';
+    linkChars = 0;
+  };
+
+  const tokens = /<(\/?)([a-z][a-z0-9]*)\b[^>]*>|([^<]+)/gi;
+  let token: RegExpExecArray | null;
+  while ((token = tokens.exec(html))) {
+    if (token[3] !== undefined) {
+      text += token[3];
+      if (inLink) {
+        linkChars += token[3].trim().length;
+      }
+      continue;
+    }
+
+    const name = token[2].toLowerCase();
+    if (name === 'a') {
+      inLink = token[1] !== '/';
+    } else if (BLOCK_TAGS.has(name)) {
+      // A closing tag ends the block; what follows is plain paragraph text
+      flush(token[1] === '/' ? 'p' : name);
+    }
+  }
+  flush('p');
+
+  return blocks;
+}
+
+function formatBlock({ tag, text }: TextBlock): string {
+  if (/^h[1-6]$/.test(tag)) {
+    return `${'#'.repeat(Math.min(Number(tag[1]), 3))} ${text}`;
+  }
+  if (tag === 'li' || tag === 'dd') {
+    return `- ${text}`;
+  }
+  if (tag === 'blockquote') {
+    return `> ${text}`;
+  }
+  return text;
+}
+
+/** Readable text and metadata of an HTML document */
+export function extractReadableContent(html: string): ReadableContent {
+  const title = metaContent(html, 'og:title')
+    || decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '').replace(/\s+/g, ' ').trim();
+
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(new RegExp(`<(${BOILERPLATE_TAGS.join('|')})\\b[^>]*>[\\s\\S]*?<\\/\\1>`, 'gi'), ' ');
+
+  // Prefer the page's own idea of its main content
+  body = largestElement(body, 'article')
+    || largestElement(body, 'main')
+    || body.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1]
+    || body;
+
+  const blocks = splitBlocks(body).filter(block => {
+    const isHeading = /^h[1-6]$/.test(block.tag);
+    // Mostly links (menus, tag clouds, "related" lists) is boilerplate
+    if (block.linkChars / block.text.length > 0.5 && block.text.length < 200) {
+      return false;
+    }
+    return isHeading || block.tag === 'pre' || block.text.length >= (block.tag === 'li' ? 15 : 40);
+  });
+
+  return {
+    title: title || 'Untitled page',
+    siteName: metaContent(html, 'og:site_name'),
+    byline: metaContent(html, 'author') || metaContent(html, 'article:author'),
+    excerpt: metaContent(html, 'og:description') || metaContent(html, 'description'),
+    text: blocks.map(formatBlock).join('\n\n')
+  };
+}
+
+function truncateText(text: string, maxChars: number): { text: string; truncated: boolean } {
+  if (text.length <= maxChars) {
+    return { text, truncated: false };
+  }
+  const cut = text.slice(0, maxChars);
+  // End on a paragraph boundary when one is reasonably close
+  const boundary = cut.lastIndexOf('\n\n');
+  return { text: (boundary > maxChars * 0.7 ? cut.slice(0, boundary) : cut).trimEnd(), truncated: true };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export async function fetchPage(url: string, { signal, maxChars = envNumber('PAGE_FETCH_MAX_CHARS', DEFAULT_MAX_CHARS) }: PageFetchOptions = {}): Promise<PageFetchResult> {
+  try {
+    let current = new URL(url);
+    const cacheKey = current.toString();
+    const cached = await pageCache.get(cacheKey);
+    if (cached) {
+      console.log('📄 Using cached page for:', url);
+      return cached;
+    }
+
+    console.log('📄 Fetching page:', url);
+    const timeout = AbortSignal.timeout(envNumber('PAGE_FETCH_TIMEOUT_MS', DEFAULT_TIMEOUT_MS));
+    const requestSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+    let response: Response | null = null;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await assertPublicUrl(current);
+
+      const rules = await getRobotsRules(current, requestSignal);
+      if (rules && !isAllowedByRobots(rules, current.pathname + current.search)) {
+        throw new Error(`${current.hostname} does not allow automated reading of this page (robots.txt)`);
+      }
+
+      response = await fetch(current.toString(), {
+        method: 'GET',
+        redirect: 'manual',
+        signal: requestSignal,
+        dispatcher: publicAgent,
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.1'
+        }
+        // Node's fetch takes an undici dispatcher, which the DOM RequestInit type does not list
+      } as RequestInit);
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        // Every hop gets the same safety and robots checks
+        current = new URL(location, current);
+        response = null;
+        continue;
+      }
+      break;
+    }
+
+    if (!response) {
+      throw new Error('Too many redirects');
+    }
+    if (!response.ok) {
+      throw new Error(`Page returned ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const isHtml = /text\/html|application\/xhtml\+xml/i.test(contentType);
+    if (!isHtml && !/text\/plain/i.test(contentType)) {
+      throw new Error(`Cannot read ${contentType.split(';')[0] || 'this kind of'} content`);
+    }
+
+    const { bytes } = await readLimited(response, envNumber('PAGE_FETCH_MAX_BYTES', DEFAULT_MAX_BYTES));
+    const body = decodeBody(bytes, contentType);
+    const readable = isHtml
+      ? extractReadableContent(body)
+      : { title: current.pathname.split('/').pop() || current.hostname, text: body.trim() };
+
+    if (!readable.text) {
+      throw new Error('No readable text found on the page');
+    }
+
+    const { text, ...metadata } = readable;
+    const { text: content, truncated } = truncateText(text, maxChars);
+    const page: FetchedPage = {
+      success: true,
+      url,
+      finalUrl: current.toString(),
+      ...metadata,
+      content,
+      contentLength: text.length,
+      truncated,
+      timestamp: new Date().toISOString()
+    };
+
+    await pageCache.set(cacheKey, page);
+    console.log('✅ Page read:', url, `(${page.contentLength} characters)`);
+    return page;
+
+  } catch (error: any) {
+    // fetch reports connection failures (including a refused address) as "fetch failed" with the reason as its cause
+    const message = error.name === 'TimeoutError' ? 'Timed out reading the page' : error.cause?.message || error.message;
+    console.error('❌ Page fetch error:', url, message);
+    return {
+      success: false,
+      url,
+      error: message,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+export function formatPageContent(page: PageFetchResult, sourceNumber?: number): string {
+  if (!page.success) {
+    return `📄 **Could not read ${page.url}**\n\n${page.error}`;
+  }
+
+  let formatted = `📄 **${sourceNumber ? `[${sourceNumber}] ` : ''}${page.title}**\n`;
+  formatted += `${page.finalUrl}\n`;
+  const details = [page.siteName, page.byline && `by ${page.byline}`].filter(Boolean);
+  if (details.length > 0) {
+    formatted += `${details.join(' • ')}\n`;
+  }
+  formatted += `\n${page.content}\n`;
+
+  if (page.truncated) {
+    formatted += `\n_(Showing the first ${page.content.length} of ${page.contentLength} characters)_\n`;
+  }
+  if (sourceNumber) {
+    formatted += `\nCite this page as [${sourceNumber}].`;
+  }
+  return formatted;
+}
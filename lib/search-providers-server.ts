@@ -0,0 +1,198 @@
+/**
+ * Web Search Providers
+ *
+ * Adapters for each search backend, all returning the same raw result shape.
+ * Ranking, merging and caching happen in `web-search-server.ts`.
+ */
+
+import fs from "fs";
+import type { SearchProvider, SearchOptions, SearchRecency, ProviderResult } from "./web-search-server";
+
+const USER_AGENT = 'AI-Orb-Chatbot/1.0';
+
+async function fetchJson(provider: string, url: URL, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<any> {
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    signal,
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'application/json',
+      ...headers
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`${provider} search error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+const GOOGLE_DATE_RESTRICT: Record<SearchRecency, string> = { day: 'd1', week: 'w1', month: 'm1', year: 'y1' };
+
+/** Google Custom Search JSON API (at most 10 results per request) */
+export function createGoogleSearchProvider(apiKey?: string, engineId?: string): SearchProvider {
+  return {
+    name: 'google',
+    async search(query: string, options: SearchOptions): Promise<ProviderResult[]> {
+      if (!apiKey || !engineId) {
+        throw new Error('Google Custom Search API credentials not configured');
+      }
+
+      const url = new URL('https://www.googleapis.com/customsearch/v1');
+      url.searchParams.append('key', apiKey);
+      url.searchParams.append('cx', engineId);
+      url.searchParams.append('q', query);
+      url.searchParams.append('num', String(Math.min(options.count, 10)));
+      // Google only distinguishes on and off
+      url.searchParams.append('safe', options.safeSearch === 'off' ? 'off' : 'active');
+      if (options.recency) {
+        url.searchParams.append('dateRestrict', GOOGLE_DATE_RESTRICT[options.recency]);
+      }
+      if (options.language) {
+        url.searchParams.append('lr', `lang_${options.language}`);
+        url.searchParams.append('hl', options.language);
+      }
+
+      const data = await fetchJson('Google Custom Search', url, options.signal);
+      return (data.items || []).map((item: any) => ({
+        title: item.title,
+        link: item.link,
+        snippet: item.snippet,
+        displayLink: item.displayLink
+      }));
+    }
+  };
+}
+
+const BRAVE_FRESHNESS: Record<SearchRecency, string> = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+
+/** Brave Search API (at most 20 results per request) */
+export function createBraveSearchProvider(apiKey?: string): SearchProvider {
+  return {
+    name: 'brave',
+    async search(query: string, options: SearchOptions): Promise<ProviderResult[]> {
+      if (!apiKey) {
+        throw new Error('Brave Search API key not configured');
+      }
+
+      const url = new URL('https://api.search.brave.com/res/v1/web/search');
+      url.searchParams.append('q', query);
+      url.searchParams.append('count', String(Math.min(options.count, 20)));
+      url.searchParams.append('safesearch', options.safeSearch);
+      if (options.recency) {
+        url.searchParams.append('freshness', BRAVE_FRESHNESS[options.recency]);
+      }
+      if (options.language) {
+        url.searchParams.append('search_lang', options.language);
+      }
+
+      const data = await fetchJson('Brave', url, options.signal, { 'X-Subscription-Token': apiKey });
+      return (data.web?.results || []).map((item: any) => ({
+        title: item.title,
+        link: item.url,
+        snippet: item.description
+      }));
+    }
+  };
+}
+
+const SEARXNG_SAFE_SEARCH = { off: '0', moderate: '1', strict: '2' };
+
+/** A SearXNG instance with the JSON output format enabled */
+export function createSearxngSearchProvider(baseUrl?: string): SearchProvider {
+  return {
+    name: 'searxng',
+    async search(query: string, options: SearchOptions): Promise<ProviderResult[]> {
+      if (!baseUrl) {
+        throw new Error('SearXNG URL not configured');
+      }
+
+      const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+      url.searchParams.append('q', query);
+      url.searchParams.append('format', 'json');
+      url.searchParams.append('safesearch', SEARXNG_SAFE_SEARCH[options.safeSearch]);
+      if (options.recency) {
+        url.searchParams.append('time_range', options.recency);
+      }
+      if (options.language) {
+        url.searchParams.append('language', options.language);
+      }
+
+      // SearXNG has no result count parameter
+      const data = await fetchJson('SearXNG', url, options.signal);
+      return (data.results || []).slice(0, options.count).map((item: any) => ({
+        title: item.title,
+        link: item.url,
+        snippet: item.content
+      }));
+    }
+  };
+}
+
+const BING_SAFE_SEARCH = { off: 'Off', moderate: 'Moderate', strict: 'Strict' };
+
+function bingFreshness(recency: SearchRecency): string {
+  if (recency === 'year') {
+    // Bing has no "past year" value, but accepts a date range
+    const today = new Date();
+    const yearAgo = new Date(today.getTime() - 365 * 24 * 60 * 60 * 1000);
+    return `${yearAgo.toISOString().slice(0, 10)}..${today.toISOString().slice(0, 10)}`;
+  }
+  return recency.charAt(0).toUpperCase() + recency.slice(1);
+}
+
+/** Bing Web Search API v7 (at most 50 results per request) */
+export function createBingSearchProvider(apiKey?: string, endpoint = 'https://api.bing.microsoft.com/v7.0/search'): SearchProvider {
+  return {
+    name: 'bing',
+    async search(query: string, options: SearchOptions): Promise<ProviderResult[]> {
+      if (!apiKey) {
+        throw new Error('Bing Search API key not configured');
+      }
+
+      const url = new URL(endpoint);
+      url.searchParams.append('q', query);
+      url.searchParams.append('count', String(Math.min(options.count, 50)));
+      url.searchParams.append('safeSearch', BING_SAFE_SEARCH[options.safeSearch]);
+      url.searchParams.append('responseFilter', 'Webpages');
+      if (options.recency) {
+        url.searchParams.append('freshness', bingFreshness(options.recency));
+      }
+      if (options.language) {
+        url.searchParams.append('setLang', options.language);
+      }
+
+      const data = await fetchJson('Bing', url, options.signal, { 'Ocp-Apim-Subscription-Key': apiKey });
+      return (data.webPages?.value || []).map((item: any) => ({
+        title: item.name,
+        link: item.url,
+        snippet: item.snippet
+      }));
+    }
+  };
+}
+
+/**
+ * Canned results for offline development and tests. The JSON file maps
+ * lower-cased queries to result lists, with "default" used for any other
+ * query: { "default": [{ "title": "...", "url": "...", "snippet": "..." }] }
+ */
+export function createFixtureSearchProvider(fixturePath?: string): SearchProvider {
+  return {
+    name: 'fixture',
+    async search(query: string, options: SearchOptions): Promise<ProviderResult[]> {
+      if (!fixturePath) {
+        throw new Error('Search fixture path not configured');
+      }
+
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+      const items = fixture[query.toLowerCase().trim()] || fixture.default || [];
+      return items.slice(0, options.count).map((item: any) => ({
+        title: item.title,
+        link: item.url || item.link,
+        snippet: item.snippet
+      }));
+    }
+  };
+}
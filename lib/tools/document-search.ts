@@ -0,0 +1,60 @@
+/**
+ * Document search tool: passages from the user's own document library.
+ * Only offered in chats that opted into answering from the user's documents.
+ */
+
+import type { AssistantTool } from "./registry";
+import { requireString } from "./registry";
+import { documentFileUrl, searchDocuments } from "../document-library-server";
+import type { DocumentMatch } from "../document-library-server";
+
+export interface DocumentSearchOutput {
+  success: boolean;
+  query: string;
+  matches: DocumentMatch[];
+}
+
+const SNIPPET_LENGTH = 200;
+
+function citationTitle(match: DocumentMatch): string {
+  return match.location ? `${match.documentName}, ${match.location}` : match.documentName;
+}
+
+export const documentSearchTool: AssistantTool<Record<string, any>, DocumentSearchOutput> = {
+  name: "search_documents",
+  label: "My Documents",
+  description: "Search the documents the user uploaded to their library (handbooks, notes, reports). Use for questions the user's own documents may answer. Cite the passages you use as [n].",
+  parameters: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "What to look for, as a short question or phrase"
+      }
+    },
+    required: ["query"]
+  },
+  // Allows for embedding the query and, with an in-memory index, the library
+  timeoutMs: 20000,
+  execute: async (args, { userId, signal }) => {
+    const query = requireString(args, "query");
+    return { success: true, query, matches: await searchDocuments(userId, query, { signal }) };
+  },
+  sources: output => output.matches.map(match => ({
+    title: citationTitle(match),
+    url: documentFileUrl(match.documentId, match.location, match.mimeType),
+    snippet: match.content.length > SNIPPET_LENGTH ? `${match.content.slice(0, SNIPPET_LENGTH).trimEnd()}…` : match.content
+  })),
+  formatResult: (output, sources) => {
+    if (output.matches.length === 0) {
+      return `No passages in the user's documents match "${output.query}". Say so if the question depends on them.`;
+    }
+    const passages = output.matches.map((match, i) =>
+      `[${sources[i].number}] ${citationTitle(match)}\n${match.content}`
+    );
+    return [
+      `Passages from the user's documents for "${output.query}", most relevant first. Some may be unrelated; use only what answers the question and cite it inline by number, e.g. [${sources[0].number}].`,
+      ...passages
+    ].join("\n\n");
+  }
+};
@@ -0,0 +1,28 @@
+/**
+ * Built-in assistant tools. To add a tool, create a module exporting an
+ * `AssistantTool` and register it below.
+ */
+
+import { registerTool } from "./registry";
+import { pageFetchTool } from "./page-fetch";
+import { weatherTool } from "./weather";
+import { webSearchTool } from "./web-search";
+import { documentSearchTool } from "./document-search";
+
+// Maximum number of tool rounds per message before the model must answer
+export const MAX_TOOL_STEPS = 3;
+
+registerTool(weatherTool);
+registerTool(webSearchTool);
+registerTool(pageFetchTool);
+registerTool(documentSearchTool);
+
+export {
+  executeToolCall,
+  getEnabledTools,
+  getRegisteredTools,
+  getTool,
+  listToolInfo,
+  toToolDeclarations
+} from "./registry";
+export type { AssistantTool, ExecuteToolOptions, Source, ToolContext, ToolInfo } from "./registry";
@@ -0,0 +1,32 @@
+/**
+ * Page reader tool: the readable text of a web page, e.g. a link the user
+ * pasted or a search result whose snippet is not enough
+ */
+
+import type { AssistantTool } from "./registry";
+import { requireString } from "./registry";
+import { fetchPage, formatPageContent } from "../page-fetch-server";
+import type { PageFetchResult } from "../page-fetch-server";
+
+export const pageFetchTool: AssistantTool<Record<string, any>, PageFetchResult> = {
+  name: "fetch_page",
+  label: "Page Reader",
+  description: "Read the text of a web page. Use when the user shares a link or asks about a specific page, or when search snippets are too short to answer. Cite the page as [n].",
+  parameters: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description: "Full http or https URL of the page"
+      }
+    },
+    required: ["url"]
+  },
+  // Allows for robots.txt, redirects and a slow page
+  timeoutMs: 12000,
+  execute: (args, { signal }) => fetchPage(requireString(args, "url"), { signal }),
+  sources: output => output.success
+    ? [{ title: output.title, url: output.url, snippet: output.excerpt }]
+    : [],
+  formatResult: (output, sources) => formatPageContent(output, sources[0]?.number)
+};
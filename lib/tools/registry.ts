@@ -0,0 +1,183 @@
+/**
+ * Assistant Tool Registry
+ *
+ * Each tool is a module that declares its name, JSON schema, executor, timeout
+ * and result formatter. Tools are registered in `lib/tools/index.ts`; the chat
+ * route offers the model every registered tool the user has not disabled.
+ */
+
+import type { ToolCall, ToolDeclaration, ToolResult } from "../llm-provider-server";
+import type { UserSettings } from "../user-settings-server";
+import type { GeoCoordinates } from "../weather-server";
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+export interface ToolContext {
+  userId: string;
+  /** The user's saved preferences, e.g. weather units */
+  settings: UserSettings;
+  /** Where the user is, if they shared their browser location */
+  userLocation?: GeoCoordinates;
+  /** Aborted when the tool times out */
+  signal: AbortSignal;
+}
+
+/** A page a tool result drew on; the reply cites it as [number] */
+export interface Source {
+  number: number;
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+export interface AssistantTool<Args = Record<string, any>, Output extends Record<string, any> = Record<string, any>> {
+  /** Function name the model calls, e.g. "get_weather" */
+  name: string;
+  /** Short human-readable name for the settings panel */
+  label: string;
+  /** Tells the model when to use the tool */
+  description: string;
+  /** JSON schema for the arguments */
+  parameters: Record<string, any>;
+  timeoutMs?: number;
+  execute(args: Args, context: ToolContext): Promise<Output>;
+  /** Pages the output is based on, if the model should cite them */
+  sources?(output: Output): Omit<Source, "number">[];
+  /** Text the model sees as the tool result; `sources` are this output's numbered sources */
+  formatResult(output: Output, sources: Source[]): string;
+}
+
+export interface ExecuteToolOptions extends Omit<ToolContext, "signal"> {
+  /**
+   * Sources cited so far in this reply. New sources are appended and numbered
+   * after the existing ones; a URL seen before keeps its number.
+   */
+  sources?: Source[];
+}
+
+/** Tool metadata safe to send to the client */
+export interface ToolInfo {
+  name: string;
+  label: string;
+  description: string;
+}
+
+const registry = new Map<string, AssistantTool<any, any>>();
+
+/**
+ * Add a tool to the registry. Registering the same name again replaces the
+ * earlier tool, so modules re-evaluated by hot reload don't fail.
+ */
+export function registerTool<Args, Output extends Record<string, any>>(tool: AssistantTool<Args, Output>): void {
+  registry.set(tool.name, tool);
+}
+
+export function getRegisteredTools(): AssistantTool[] {
+  return Array.from(registry.values());
+}
+
+export function getTool(name: string): AssistantTool | undefined {
+  return registry.get(name);
+}
+
+export function listToolInfo(): ToolInfo[] {
+  return getRegisteredTools().map(({ name, label, description }) => ({ name, label, description }));
+}
+
+/** Registered tools minus the ones the user switched off */
+export function getEnabledTools(disabledTools: string[] = []): AssistantTool[] {
+  return getRegisteredTools().filter(tool => !disabledTools.includes(tool.name));
+}
+
+export function toToolDeclarations(tools: AssistantTool[]): ToolDeclaration[] {
+  return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+/**
+ * Read a required, non-empty string argument. Tools use this to validate
+ * model-supplied arguments before doing any work.
+ */
+export function requireString(args: Record<string, any>, key: string): string {
+  const value = args?.[key];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`Missing required argument "${key}"`);
+  }
+  return value.trim();
+}
+
+/** Read an optional string argument; blank strings count as missing */
+export function optionalString(args: Record<string, any>, key: string): string | undefined {
+  const value = args?.[key];
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function numberSources(found: Omit<Source, "number">[], cited: Source[]): Source[] {
+  return found.map(source => {
+    const existing = cited.find(s => s.url === source.url);
+    if (existing) {
+      return existing;
+    }
+    const numbered = { ...source, number: cited.length + 1 };
+    cited.push(numbered);
+    return numbered;
+  });
+}
+
+/**
+ * Run a tool call requested by the model against the offered tools.
+ * Failures (unknown tool, bad arguments, timeouts) are returned as results
+ * so the model can tell the user instead of the request failing.
+ */
+export async function executeToolCall(
+  call: ToolCall,
+  tools: AssistantTool[],
+  { sources = [], ...context }: ExecuteToolOptions
+): Promise<ToolResult> {
+  console.log("🛠️ [TOOLS] Executing tool:", call.name, call.args);
+
+  try {
+    const tool = tools.find(t => t.name === call.name);
+    if (!tool) {
+      throw new Error(`Unknown tool "${call.name}"`);
+    }
+
+    const output = await withTimeout(
+      signal => tool.execute(call.args, { ...context, signal }),
+      tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS
+    );
+
+    const cited = numberSources(tool.sources?.(output) ?? [], sources);
+
+    return {
+      callId: call.id,
+      name: call.name,
+      result: { success: output.success !== false, content: tool.formatResult(output, cited) },
+      data: output
+    };
+  } catch (error: any) {
+    console.error("❌ [TOOLS] Tool failed:", call.name, error.message);
+    return {
+      callId: call.id,
+      name: call.name,
+      result: { success: false, error: error.message || "Tool failed" }
+    };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Weather tool: current conditions, forecasts and air quality from OpenWeatherMap
+ */
+
+import type { AssistantTool } from "./registry";
+import { optionalString } from "./registry";
+import { getWeatherData, formatWeatherResults } from "../weather-server";
+import type { WeatherLookupKind, WeatherResult } from "../weather-server";
+
+const LOOKUP_KINDS: WeatherLookupKind[] = ["current", "forecast", "hourly", "air_quality"];
+
+export const weatherTool: AssistantTool<Record<string, any>, WeatherResult> = {
+  name: "get_weather",
+  label: "Weather",
+  description: "Get live weather for a city or place: current conditions, a daily forecast for up to 5 days, a 3-hourly outlook, or air quality. Use for questions about weather, temperature, rain, wind, pollution or what to wear somewhere.",
+  parameters: {
+    type: "object",
+    properties: {
+      location: {
+        type: "string",
+        description: "City or place name, optionally with country, e.g. \"Lahore\" or \"Paris, FR\". Omit when the user means where they are (\"weather here\")"
+      },
+      kind: {
+        type: "string",
+        enum: LOOKUP_KINDS,
+        description: "\"current\" for right now (default), \"forecast\" for daily highs/lows on coming days, \"hourly\" for how the weather changes through a day, \"air_quality\" for AQI and pollutants"
+      },
+      when: {
+        type: "string",
+        description: "For forecast and hourly: the time span as the user said it, e.g. \"tomorrow\", \"this weekend\", \"next 3 days\", \"friday\", or dates like \"2025-06-01 to 2025-06-03\""
+      }
+    }
+  },
+  timeoutMs: 8000,
+  execute: (args, { settings, userLocation, signal }) => {
+    const when = optionalString(args, "when");
+    // A time span without a kind means the user is asking about the future
+    const kind = LOOKUP_KINDS.includes(args.kind) ? args.kind : when ? "forecast" : "current";
+
+    // No place named: the browser location if shared, else the user's default city
+    const location = optionalString(args, "location") || (userLocation ? undefined : settings.defaultCity || undefined);
+    if (!location && !userLocation) {
+      throw new Error("No location given, and the user has neither shared their location nor set a default city. Ask them where.");
+    }
+
+    return getWeatherData({
+      kind,
+      location,
+      coordinates: userLocation,
+      units: settings.weatherUnits,
+      lang: settings.weatherLanguage,
+      when
+    }, signal);
+  },
+  formatResult: formatWeatherResults
+};
@@ -0,0 +1,58 @@
+/**
+ * Web search tool: top results from the configured search providers
+ */
+
+import type { AssistantTool } from "./registry";
+import { optionalString, requireString } from "./registry";
+import { getWebResults, formatSearchResults, MAX_SEARCH_RESULTS, SEARCH_RECENCIES } from "../web-search-server";
+import type { SearchOptions, WebSearchResult } from "../web-search-server";
+
+export const webSearchTool: AssistantTool<Record<string, any>, WebSearchResult> = {
+  name: "web_search",
+  label: "Web Search",
+  description: "Search the web for up-to-date information: news, recent events, prices, releases, or facts that may have changed after your training data. Cite the results you use as [n].",
+  parameters: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "A concise search engine query"
+      },
+      recency: {
+        type: "string",
+        enum: SEARCH_RECENCIES,
+        description: "Only return pages from the past day, week, month or year, e.g. \"day\" for breaking news"
+      },
+      count: {
+        type: "integer",
+        description: `Number of results, 1 to ${MAX_SEARCH_RESULTS}. Leave out unless the user wants many sources`
+      },
+      language: {
+        type: "string",
+        description: "Two-letter language code for the results, e.g. \"de\", when the user wants results in a specific language"
+      }
+    },
+    required: ["query"]
+  },
+  timeoutMs: 10000,
+  execute: (args, { signal }) => {
+    const options: Partial<SearchOptions> = { signal };
+    if (SEARCH_RECENCIES.includes(args.recency)) {
+      options.recency = args.recency;
+    }
+    if (Number.isFinite(Number(args.count)) && Number(args.count) > 0) {
+      options.count = Number(args.count);
+    }
+    const language = optionalString(args, "language");
+    if (language && /^[a-z]{2}$/i.test(language)) {
+      options.language = language.toLowerCase();
+    }
+    return getWebResults(requireString(args, "query"), options);
+  },
+  sources: output => output.results.map(result => ({
+    title: result.title,
+    url: result.link,
+    snippet: result.snippet
+  })),
+  formatResult: formatSearchResults
+};
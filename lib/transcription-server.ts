@@ -0,0 +1,88 @@
+/**
+ * Voice Input Transcription for Next.js API Routes
+ *
+ * Reads a recording from a `multipart/form-data` request (the file in `audio`,
+ * at most TRANSCRIBE_MAX_BYTES, optionally the spoken `language`) and turns it
+ * into text with the configured LLM provider.
+ */
+
+import { getLLMProvider } from "./llm-provider-server";
+import type { AudioInput, TranscriptionResult } from "./llm-provider-server";
+
+// Gemini takes inline audio up to 20MB per request, OpenAI up to 25MB
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+// What browsers record (MediaRecorder) and common audio files, by normalised type
+const AUDIO_TYPES: Record<string, string> = {
+  "audio/webm": "audio/webm",
+  "video/webm": "audio/webm",
+  "audio/ogg": "audio/ogg",
+  "audio/mp4": "audio/mp4",
+  "audio/x-m4a": "audio/mp4",
+  "audio/mpeg": "audio/mpeg",
+  "audio/mp3": "audio/mpeg",
+  "audio/wav": "audio/wav",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/aac": "audio/aac",
+  "audio/flac": "audio/flac"
+};
+
+/** Largest recording accepted, read from the environment on each request */
+export function getTranscriptionMaxBytes(): number {
+  const value = Number(process.env.TRANSCRIBE_MAX_BYTES);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_BYTES;
+}
+
+/** The recording and language hint from a transcription request */
+export async function parseAudioUpload(formData: FormData): Promise<{ audio?: AudioInput; language?: string; error?: string }> {
+  const entry = formData.get("audio");
+  if (!entry || typeof entry === "string") {
+    return { error: "Attach the recording as \"audio\"" };
+  }
+
+  // MediaRecorder types carry codecs, e.g. "audio/webm;codecs=opus"
+  const mimeType = AUDIO_TYPES[(entry.type || "").split(";")[0].trim().toLowerCase()];
+  if (!mimeType) {
+    return { error: `Unsupported audio type "${entry.type}". Send WebM, Ogg, MP4, MP3, WAV, AAC or FLAC audio.` };
+  }
+  if (entry.size === 0) {
+    return { error: "The recording is empty" };
+  }
+  const maxBytes = getTranscriptionMaxBytes();
+  if (entry.size > maxBytes) {
+    return { error: `The recording is too large. Maximum size is ${Math.round(maxBytes / 1024 / 1024)}MB.` };
+  }
+
+  // Browsers report tags such as "en-US"; providers take the language part
+  const rawLanguage = formData.get("language");
+  let language: string | undefined;
+  if (typeof rawLanguage === "string" && rawLanguage.trim()) {
+    const match = rawLanguage.trim().match(/^([a-z]{2,3})(?:[-_][a-z0-9]{1,8})*$/i);
+    if (!match) {
+      return { error: "language must be a language tag such as \"en\" or \"en-US\"" };
+    }
+    language = match[1].toLowerCase();
+  }
+
+  return {
+    audio: {
+      name: entry.name || "recording",
+      mimeType,
+      bytes: new Uint8Array(await entry.arrayBuffer())
+    },
+    language
+  };
+}
+
+/** Transcribe a recording with the configured provider */
+export async function transcribeAudio(audio: AudioInput, language?: string, signal?: AbortSignal): Promise<TranscriptionResult> {
+  const provider = getLLMProvider();
+  console.log(`🎙️ [TRANSCRIBE] ${provider.name}: ${audio.mimeType}, ${audio.bytes.length} bytes${language ? `, ${language}` : ""}`);
+
+  const result = await provider.transcribe({ audio, language, signal });
+  if (!result.success) {
+    console.error(`❌ [TRANSCRIBE] ${provider.name} error:`, result.error);
+  }
+  return result;
+}
@@ -0,0 +1,218 @@
+/**
+ * Long-term User Memory for Next.js API Routes
+ *
+ * Durable facts a user shares ("I'm vegetarian", "I live in Lahore") are
+ * extracted after each exchange and stored in `user_memories`, then retrieved
+ * for later chats.
+ */
+
+import { supabase } from "./supabase-server";
+import { getLLMProvider } from "./llm-provider-server";
+
+export interface UserMemory {
+  id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Memories longer than this are rejected (they are facts, not documents)
+export const MAX_MEMORY_LENGTH = 500;
+// Upper bound on memories considered per user when retrieving or extracting
+const MAX_MEMORIES_LOADED = 200;
+const DEFAULT_RETRIEVAL_LIMIT = 8;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for',
+  'from', 'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'me', 'my', 'of',
+  'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your', 'user', 'users'
+]);
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+  );
+}
+
+export async function listMemories(userId: string): Promise<UserMemory[]> {
+  const { data, error } = await (supabase as any)
+    .from('user_memories')
+    .select('id, user_id, content, created_at, updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(MAX_MEMORIES_LOADED);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+export async function createMemory(userId: string, content: string): Promise<UserMemory> {
+  const { data, error } = await (supabase as any)
+    .from('user_memories')
+    .insert({ user_id: userId, content: content.trim() })
+    .select('id, user_id, content, created_at, updated_at')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Returns the updated memory, or null if it does not belong to the user
+ */
+export async function updateMemory(userId: string, memoryId: string, content: string): Promise<UserMemory | null> {
+  const { data, error } = await (supabase as any)
+    .from('user_memories')
+    .update({ content: content.trim(), updated_at: new Date().toISOString() })
+    .eq('id', memoryId)
+    .eq('user_id', userId)
+    .select('id, user_id, content, created_at, updated_at')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Delete one memory, or all of the user's memories when memoryId is omitted.
+ * Returns the number of memories deleted.
+ */
+export async function deleteMemories(userId: string, memoryId?: string): Promise<number> {
+  let query = (supabase as any)
+    .from('user_memories')
+    .delete()
+    .eq('user_id', userId);
+
+  if (memoryId) {
+    query = query.eq('id', memoryId);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.length || 0;
+}
+
+/**
+ * Memories most relevant to a message, ranked by keyword overlap.
+ * When the user has only a few memories, all of them are returned.
+ */
+export async function retrieveRelevantMemories(
+  userId: string,
+  message: string,
+  limit: number = DEFAULT_RETRIEVAL_LIMIT
+): Promise<UserMemory[]> {
+  const memories = await listMemories(userId);
+
+  if (memories.length <= limit) {
+    return memories;
+  }
+
+  const messageWords = keywords(message);
+
+  return memories
+    .map(memory => {
+      let score = 0;
+      keywords(memory.content).forEach(word => {
+        if (messageWords.has(word)) score++;
+      });
+      return { memory, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ memory }) => memory);
+}
+
+export function formatMemoriesForPrompt(memories: UserMemory[]): string {
+  return memories.map(memory => `- ${memory.content}`).join('\n');
+}
+
+function buildExtractionPrompt(existing: UserMemory[], userMessage: string, aiResponse: string): string {
+  return [
+    "You decide what an AI assistant should remember about a user across conversations.",
+    "From the exchange below, extract durable personal facts or preferences the USER stated about themselves",
+    "(diet, location, job, family, long-term goals, how they like answers). Ignore one-off requests,",
+    "questions, opinions about the current topic, and anything already known.",
+    "Write each fact as a short third-person sentence, e.g. \"User is vegetarian.\"",
+    "Reply with a JSON array of strings only, or [] if there is nothing new.",
+    "",
+    "Already known:",
+    existing.length > 0 ? formatMemoriesForPrompt(existing) : "(nothing yet)",
+    "",
+    `User: ${userMessage}`,
+    `Assistant: ${aiResponse}`
+  ].join('\n');
+}
+
+function parseFacts(reply: string): string[] {
+  // Models sometimes wrap JSON in a code fence
+  const json = reply.replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '').trim();
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter((fact): fact is string => typeof fact === 'string')
+      .map(fact => fact.trim())
+      .filter(fact => fact.length > 0 && fact.length <= MAX_MEMORY_LENGTH);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Extract new memories from an exchange and store them.
+ * Errors are logged and swallowed - memory is best-effort.
+ */
+export async function extractMemories(userId: string, userMessage: string, aiResponse: string): Promise<void> {
+  try {
+    const existing = await listMemories(userId);
+
+    const result = await getLLMProvider().generate({
+      prompt: buildExtractionPrompt(existing, userMessage, aiResponse)
+    });
+
+    if (!result.success || !result.reply) {
+      throw new Error(result.error || "Empty extraction response from AI");
+    }
+
+    const known = new Set(existing.map(memory => memory.content.toLowerCase()));
+    const facts = parseFacts(result.reply).filter(fact => !known.has(fact.toLowerCase()));
+
+    if (facts.length === 0) {
+      return;
+    }
+
+    const { error } = await (supabase as any)
+      .from('user_memories')
+      .insert(facts.map(content => ({ user_id: userId, content })));
+
+    if (error) {
+      throw error;
+    }
+
+    console.log("🧠 [MEMORY] Stored", facts.length, "new memories for user:", userId);
+  } catch (error: any) {
+    console.error("❌ [MEMORY] Failed to extract memories:", error.message || error);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Per-user Settings for Next.js API Routes
+ * Stored in `user_settings`; users without a row get the defaults.
+ */
+
+import { supabase } from "./supabase-server";
+import { getRegisteredTools } from "./tools";
+import { WEATHER_UNITS } from "./weather-server";
+import type { WeatherUnits } from "./weather-server";
+
+export type AIPersonality = "friendly" | "formal" | "sarcastic" | "concise";
+
+export const AI_PERSONALITIES: AIPersonality[] = ["friendly", "formal", "sarcastic", "concise"];
+export const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 2000;
+export const MAX_DEFAULT_CITY_LENGTH = 100;
+// OpenWeatherMap language codes, e.g. "en", "fr", "zh_cn"
+const WEATHER_LANGUAGE_PATTERN = /^[a-z]{2}(_[a-z]{2})?$/;
+
+export interface UserSettings {
+  personality: AIPersonality;
+  customInstructions: string;
+  orbAnimation: boolean;
+  voiceInteraction: boolean;
+  /** Names of assistant tools the user switched off; new tools start enabled */
+  disabledTools: string[];
+  weatherUnits: WeatherUnits;
+  /** Language for weather descriptions */
+  weatherLanguage: string;
+  /** Used when the user asks about the weather without naming a place or sharing their location */
+  defaultCity: string;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  personality: "friendly",
+  customInstructions: "",
+  orbAnimation: true,
+  voiceInteraction: false,
+  disabledTools: [],
+  weatherUnits: "metric",
+  weatherLanguage: "en",
+  defaultCity: ""
+};
+
+const PERSONALITY_INSTRUCTIONS: Record<AIPersonality, string> = {
+  friendly: "Be warm, upbeat and conversational.",
+  formal: "Use a professional, precise and well-structured tone.",
+  sarcastic: "Use dry, playful sarcasm, but always give a correct and genuinely helpful answer. Never be mean.",
+  concise: "Keep answers as short as possible: a few sentences or a tight list, no filler."
+};
+
+function fromRow(row: any): UserSettings {
+  return {
+    personality: AI_PERSONALITIES.includes(row?.personality) ? row.personality : DEFAULT_USER_SETTINGS.personality,
+    customInstructions: row?.custom_instructions ?? DEFAULT_USER_SETTINGS.customInstructions,
+    orbAnimation: row?.orb_animation ?? DEFAULT_USER_SETTINGS.orbAnimation,
+    voiceInteraction: row?.voice_interaction ?? DEFAULT_USER_SETTINGS.voiceInteraction,
+    disabledTools: Array.isArray(row?.disabled_tools) ? row.disabled_tools : DEFAULT_USER_SETTINGS.disabledTools,
+    weatherUnits: WEATHER_UNITS.includes(row?.weather_units) ? row.weather_units : DEFAULT_USER_SETTINGS.weatherUnits,
+    weatherLanguage: row?.weather_language || DEFAULT_USER_SETTINGS.weatherLanguage,
+    defaultCity: row?.default_city ?? DEFAULT_USER_SETTINGS.defaultCity
+  };
+}
+
+/**
+ * Validate a partial settings update from a request body.
+ * Returns the sanitized update, or an error message.
+ */
+export function validateSettingsUpdate(body: any): { update?: Partial<UserSettings>; error?: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Settings must be a JSON object" };
+  }
+
+  const update: Partial<UserSettings> = {};
+
+  if (body.personality !== undefined) {
+    if (!AI_PERSONALITIES.includes(body.personality)) {
+      return { error: `Personality must be one of: ${AI_PERSONALITIES.join(", ")}` };
+    }
+    update.personality = body.personality;
+  }
+
+  if (body.customInstructions !== undefined) {
+    if (typeof body.customInstructions !== "string") {
+      return { error: "Custom instructions must be a string" };
+    }
+    if (body.customInstructions.length > MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+      return { error: `Custom instructions must be at most ${MAX_CUSTOM_INSTRUCTIONS_LENGTH} characters` };
+    }
+    update.customInstructions = body.customInstructions.trim();
+  }
+
+  for (const key of ["orbAnimation", "voiceInteraction"] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== "boolean") {
+        return { error: `${key} must be a boolean` };
+      }
+      update[key] = body[key];
+    }
+  }
+
+  if (body.disabledTools !== undefined) {
+    if (!Array.isArray(body.disabledTools) || body.disabledTools.some((name: unknown) => typeof name !== "string")) {
+      return { error: "disabledTools must be an array of tool names" };
+    }
+    const toolNames = getRegisteredTools().map(tool => tool.name);
+    const unknown = body.disabledTools.find((name: string) => !toolNames.includes(name));
+    if (unknown) {
+      return { error: `Unknown tool "${unknown}". Available tools: ${toolNames.join(", ")}` };
+    }
+    update.disabledTools = Array.from(new Set<string>(body.disabledTools));
+  }
+
+  if (body.weatherUnits !== undefined) {
+    if (!WEATHER_UNITS.includes(body.weatherUnits)) {
+      return { error: `weatherUnits must be one of: ${WEATHER_UNITS.join(", ")}` };
+    }
+    update.weatherUnits = body.weatherUnits;
+  }
+
+  if (body.weatherLanguage !== undefined) {
+    const language = typeof body.weatherLanguage === "string" ? body.weatherLanguage.trim().toLowerCase() : "";
+    if (!WEATHER_LANGUAGE_PATTERN.test(language)) {
+      return { error: "weatherLanguage must be a language code such as \"en\", \"fr\" or \"zh_cn\"" };
+    }
+    update.weatherLanguage = language;
+  }
+
+  if (body.defaultCity !== undefined) {
+    if (typeof body.defaultCity !== "string") {
+      return { error: "defaultCity must be a string" };
+    }
+    if (body.defaultCity.length > MAX_DEFAULT_CITY_LENGTH) {
+      return { error: `defaultCity must be at most ${MAX_DEFAULT_CITY_LENGTH} characters` };
+    }
+    update.defaultCity = body.defaultCity.trim();
+  }
+
+  return { update };
+}
+
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const { data, error } = await (supabase as any)
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return fromRow(data);
+}
+
+export async function saveUserSettings(userId: string, update: Partial<UserSettings>): Promise<UserSettings> {
+  const current = await getUserSettings(userId);
+  const settings = { ...current, ...update };
+
+  const { data, error } = await (supabase as any)
+    .from('user_settings')
+    .upsert({
+      user_id: userId,
+      personality: settings.personality,
+      custom_instructions: settings.customInstructions,
+      orb_animation: settings.orbAnimation,
+      voice_interaction: settings.voiceInteraction,
+      disabled_tools: settings.disabledTools,
+      weather_units: settings.weatherUnits,
+      weather_language: settings.weatherLanguage,
+      default_city: settings.defaultCity,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return fromRow(data);
+}
+
+/**
+ * System instruction for chat replies: persona, the user's custom
+ * instructions and any remembered facts about them
+ */
+export function buildSystemInstruction(settings: UserSettings, rememberedFacts?: string): string {
+  const sections = [
+    `You are Rovoxa, a helpful AI assistant. ${PERSONALITY_INSTRUCTIONS[settings.personality]}`
+  ];
+
+  if (settings.customInstructions) {
+    sections.push(`The user gave these instructions for how you should respond:\n${settings.customInstructions}`);
+  }
+
+  if (rememberedFacts) {
+    sections.push(`Things the user has told you in earlier chats:\n${rememberedFacts}`);
+  }
+
+  return sections.join("\n\n");
+}
@@ -1,158 +1,666 @@
 /**
  * Weather Server Utility for Next.js API Routes
+ *
+ * Lookups against OpenWeatherMap:
+ *   current      /data/2.5/weather        conditions right now
+ *   forecast     /data/2.5/forecast       daily summaries for up to 5 days
+ *   hourly       /data/2.5/forecast       3-hour steps (the free API has no 1-hour data)
+ *   air_quality  /data/2.5/air_pollution  AQI and pollutants, for coordinates from /geo/1.0/direct
+ *
+ * Places are looked up by name, or by coordinates (e.g. from browser geolocation).
+ *
+ * WEATHER_FIXTURE may point at a JSON file of canned responses keyed by endpoint
+ * ("weather", "forecast", "air_pollution", "geocode", "reverse_geocode"). They
+ * are served instead of calling the API, so every lookup works offline.
+ * Fixture values are metric and converted for imperial lookups; forecast times
+ * are shifted to start at the current 3-hour slot.
  */
 
-// Cache for weather results
-const weatherCache = new Map<string, { data: any; timestamp: number }>();
-const MAX_CACHE_SIZE = 10;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+import fs from "fs";
+import { createCache } from "./cache-server";
 
-export async function getWeatherData(location: string) {
-  try {
-    const cacheKey = location.toLowerCase().trim();
-    const cached = weatherCache.get(cacheKey);
-    
-    if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
-      console.log('🌤️ Using cached weather data for:', location);
-      return cached.data;
+export type WeatherLookupKind = "current" | "forecast" | "hourly" | "air_quality";
+
+export type WeatherUnits = "metric" | "imperial";
+
+export const WEATHER_UNITS: WeatherUnits[] = ["metric", "imperial"];
+
+export interface GeoCoordinates {
+  lat: number;
+  lon: number;
+}
+
+/** Either `location` or `coordinates` must be given; a location name wins */
+export interface WeatherQuery {
+  kind: WeatherLookupKind;
+  location?: string;
+  coordinates?: GeoCoordinates;
+  /** Defaults to metric (°C, m/s); imperial is °F, mph */
+  units?: WeatherUnits;
+  /** OpenWeatherMap language code for descriptions, e.g. "fr". Defaults to "en" */
+  lang?: string;
+  /**
+   * Time span for forecast and hourly lookups, e.g. "tomorrow", "this weekend",
+   * "next 3 days", "friday", "2025-06-01" or "2025-06-01 to 2025-06-03"
+   */
+  when?: string;
+}
+
+/** Validate `{ lat, lon }` from a request body; returns null if it isn't valid coordinates */
+export function parseCoordinates(value: any): GeoCoordinates | null {
+  const lat = Number(value?.lat);
+  const lon = Number(value?.lon);
+  if (value?.lat == null || value?.lon == null || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return null;
+  }
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return null;
+  }
+  return { lat, lon };
+}
+
+/** Inclusive span of local dates (YYYY-MM-DD) at the location */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+interface WeatherPlace {
+  location: string;
+  country: string;
+  units: WeatherUnits;
+  timestamp: string;
+}
+
+export interface CurrentWeather extends WeatherPlace {
+  success: true;
+  kind: "current";
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  description: string;
+  main: string;
+  windSpeed: number;
+  windDirection: number;
+  visibility: number | null;
+  sunrise: string;
+  sunset: string;
+}
+
+export interface DailyForecast {
+  date: string;
+  minTemperature: number;
+  maxTemperature: number;
+  description: string;
+  main: string;
+  /** Highest chance of precipitation during the day, 0-100 */
+  precipitationChance: number;
+  humidity: number;
+  windSpeed: number;
+}
+
+export interface WeatherForecast extends WeatherPlace {
+  success: true;
+  kind: "forecast";
+  range: DateRange;
+  days: DailyForecast[];
+  /** Set when part of the requested range is beyond the forecast */
+  note?: string;
+}
+
+export interface HourlyForecast {
+  /** Local time at the location, YYYY-MM-DDTHH:mm */
+  time: string;
+  temperature: number;
+  feelsLike: number;
+  description: string;
+  main: string;
+  precipitationChance: number;
+  windSpeed: number;
+}
+
+export interface HourlyWeather extends WeatherPlace {
+  success: true;
+  kind: "hourly";
+  range: DateRange;
+  hours: HourlyForecast[];
+  note?: string;
+}
+
+export interface AirQuality extends WeatherPlace {
+  success: true;
+  kind: "air_quality";
+  /** OpenWeatherMap index: 1 (good) to 5 (very poor) */
+  aqi: number;
+  aqiLabel: string;
+  /** Concentrations in μg/m³ */
+  components: {
+    pm2_5: number;
+    pm10: number;
+    o3: number;
+    no2: number;
+    so2: number;
+    co: number;
+  };
+}
+
+export interface WeatherError {
+  success: false;
+  kind: WeatherLookupKind;
+  location: string;
+  error: string;
+  timestamp: string;
+}
+
+export type WeatherResult = CurrentWeather | WeatherForecast | HourlyWeather | AirQuality | WeatherError;
+
+const API_BASE = 'https://api.openweathermap.org';
+const ENDPOINTS = {
+  weather: '/data/2.5/weather',
+  forecast: '/data/2.5/forecast',
+  air_pollution: '/data/2.5/air_pollution',
+  geocode: '/geo/1.0/direct',
+  reverse_geocode: '/geo/1.0/reverse'
+} as const;
+
+type WeatherEndpoint = keyof typeof ENDPOINTS;
+
+const UNIT_LABELS: Record<WeatherUnits, { temperature: string; speed: string }> = {
+  metric: { temperature: '°C', speed: 'm/s' },
+  imperial: { temperature: '°F', speed: 'mph' }
+};
+const AQI_LABELS = ['Good', 'Fair', 'Moderate', 'Poor', 'Very Poor'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Cache for API responses (forecast and hourly lookups share one forecast response)
+const weatherCache = createCache<any>({
+  namespace: 'weather',
+  ttlMs: 5 * 60 * 1000, // 5 minutes
+  maxEntries: 20
+});
+
+/** Convert a metric weather entry (current conditions or a forecast step) the way the API does for units=imperial */
+function toImperial(entry: any): any {
+  const fahrenheit = (celsius: number) => Math.round((celsius * 9 / 5 + 32) * 100) / 100;
+  const main = { ...entry.main };
+  for (const key of ['temp', 'feels_like', 'temp_min', 'temp_max']) {
+    if (typeof main[key] === 'number') {
+      main[key] = fahrenheit(main[key]);
     }
+  }
+  const wind = entry.wind && { ...entry.wind, speed: Math.round(entry.wind.speed * 2.23694 * 100) / 100 };
+  return { ...entry, main, wind };
+}
+
+function readFixture(fixturePath: string, endpoint: WeatherEndpoint, params: Record<string, string>): any {
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  let data = fixture[endpoint];
+  if (!data) {
+    throw new Error(`Weather fixture has no "${endpoint}" response`);
+  }
+  const imperial = params.units === 'imperial';
+
+  if (endpoint === 'weather' && imperial) {
+    data = toImperial(data);
+  }
 
-    if (!process.env.WEATHER_API_KEY) {
-      throw new Error('OpenWeatherMap API key not configured');
+  if (endpoint === 'forecast' && Array.isArray(data.list) && data.list.length > 0) {
+    // Keep the fixture's 3-hour spacing but start at the current slot
+    const slot = 3 * 60 * 60;
+    const shift = Math.floor(Date.now() / 1000 / slot) * slot - data.list[0].dt;
+    data = {
+      ...data,
+      list: data.list.map((entry: any) => ({
+        ...(imperial ? toImperial(entry) : entry),
+        dt: entry.dt + shift,
+        dt_txt: new Date((entry.dt + shift) * 1000).toISOString().replace('T', ' ').slice(0, 19)
+      }))
+    };
+  }
+
+  return data;
+}
+
+async function callOpenWeather(endpoint: WeatherEndpoint, params: Record<string, string>, signal?: AbortSignal): Promise<any> {
+  if (process.env.WEATHER_FIXTURE) {
+    return readFixture(process.env.WEATHER_FIXTURE, endpoint, params);
+  }
+
+  const cacheKey = `${endpoint}:${JSON.stringify(params).toLowerCase()}`;
+  const cached = await weatherCache.get(cacheKey);
+  if (cached !== undefined) {
+    console.log('🌤️ Using cached weather data for:', endpoint, params);
+    return cached;
+  }
+
+  if (!process.env.WEATHER_API_KEY) {
+    throw new Error('OpenWeatherMap API key not configured');
+  }
+
+  const apiUrl = new URL(ENDPOINTS[endpoint], API_BASE);
+  for (const [key, value] of Object.entries(params)) {
+    apiUrl.searchParams.append(key, value);
+  }
+  apiUrl.searchParams.append('appid', process.env.WEATHER_API_KEY);
+
+  const response = await fetch(apiUrl.toString(), {
+    method: 'GET',
+    signal,
+    headers: {
+      'User-Agent': 'AI-Orb-Chatbot/1.0'
     }
+  });
 
-    console.log('🌤️ Fetching weather data for:', location);
-
-    const apiUrl = new URL('https://api.openweathermap.org/data/2.5/weather');
-    apiUrl.searchParams.append('q', location);
-    apiUrl.searchParams.append('appid', process.env.WEATHER_API_KEY);
-    apiUrl.searchParams.append('units', 'metric');
-    apiUrl.searchParams.append('lang', 'en');
-
-    const response = await fetch(apiUrl.toString(), {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'AI-Orb-Chatbot/1.0'
-      }
-    });
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new Error('Invalid OpenWeatherMap API key');
-      } else if (response.status === 404) {
-        throw new Error(`Location "${location}" not found`);
-      } else {
-        throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
-      }
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error('Invalid OpenWeatherMap API key');
+    } else if (response.status === 404) {
+      throw new Error(`Location "${params.q ?? `${params.lat}, ${params.lon}`}" not found`);
+    } else {
+      throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
     }
+  }
 
-    const data = await response.json();
-
-    const weatherResult = {
-      success: true,
-      location: data.name,
-      country: data.sys.country,
-      temperature: Math.round(data.main.temp),
-      feelsLike: Math.round(data.main.feels_like),
-      humidity: data.main.humidity,
-      pressure: data.main.pressure,
-      description: data.weather[0].description,
-      main: data.weather[0].main,
-      windSpeed: data.wind?.speed || 0,
-      windDirection: data.wind?.deg || 0,
-      visibility: data.visibility ? Math.round(data.visibility / 1000) : null as number | null,
-      sunrise: new Date(data.sys.sunrise * 1000).toLocaleTimeString(),
-      sunset: new Date(data.sys.sunset * 1000).toLocaleTimeString(),
-      timestamp: new Date().toISOString()
-    };
+  const data = await response.json();
+
+  await weatherCache.set(cacheKey, data);
+
+  return data;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
 
-    // Cache the result
-    if (weatherCache.size >= MAX_CACHE_SIZE) {
-      const firstKey = weatherCache.keys().next().value;
-      weatherCache.delete(firstKey);
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** Local date and time at a place `timezoneOffset` seconds from UTC, as YYYY-MM-DDTHH:mm */
+function localTime(unixSeconds: number, timezoneOffset: number): string {
+  return new Date((unixSeconds + timezoneOffset) * 1000).toISOString().slice(0, 16);
+}
+
+/**
+ * Turn a natural-language time span into local dates, relative to `today`
+ * (YYYY-MM-DD at the location). Returns null if it isn't understood.
+ */
+export function resolveDateRange(when: string, today: string): DateRange | null {
+  const text = when.toLowerCase().trim().replace(/^(on|for|during|over)\s+/, '');
+  const single = (date: string): DateRange => ({ start: date, end: date });
+
+  const isoDates = text.match(/\d{4}-\d{2}-\d{2}/g);
+  if (isoDates) {
+    const [start, end = start] = isoDates;
+    return start <= end ? { start, end } : { start: end, end: start };
+  }
+
+  if (text === 'today' || text === 'tonight' || text === 'now') {
+    return single(today);
+  }
+  if (text === 'tomorrow' || text === 'tomorrow night') {
+    return single(addDays(today, 1));
+  }
+  if (text === 'day after tomorrow' || text === 'the day after tomorrow') {
+    return single(addDays(today, 2));
+  }
+
+  const weekend = text.match(/^(this |next )?weekend$/);
+  if (weekend) {
+    const day = weekday(today);
+    // On Sunday "this weekend" is just today
+    const saturday = day === 0 ? addDays(today, -1) : addDays(today, 6 - day);
+    const start = weekend[1] === 'next ' ? addDays(saturday, 7) : saturday;
+    return { start: start < today ? today : start, end: addDays(start, 1) };
+  }
+
+  if (text === 'this week' || text === 'week') {
+    return { start: today, end: addDays(today, 6) };
+  }
+
+  const nextDays = text.match(/^(?:the )?(?:next |coming )?(\d+) days$/);
+  if (nextDays) {
+    const count = Math.max(1, Number(nextDays[1]));
+    return { start: today, end: addDays(today, count - 1) };
+  }
+
+  const weekdayMatch = text.match(/^(this |next )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+  if (weekdayMatch) {
+    let ahead = (WEEKDAYS.indexOf(weekdayMatch[2]) - weekday(today) + 7) % 7;
+    if (ahead === 0 && weekdayMatch[1] === 'next ') {
+      ahead = 7;
     }
-    weatherCache.set(cacheKey, {
-      data: weatherResult,
-      timestamp: Date.now()
-    });
+    return single(addDays(today, ahead));
+  }
 
-    console.log('✅ Weather data retrieved for:', location);
-    return weatherResult;
+  return null;
+}
+
+function pickMidday(entries: any[], timezoneOffset: number): any {
+  return entries.reduce((best, entry) => {
+    const hour = Number(localTime(entry.dt, timezoneOffset).slice(11, 13));
+    const bestHour = Number(localTime(best.dt, timezoneOffset).slice(11, 13));
+    return Math.abs(hour - 12) < Math.abs(bestHour - 12) ? entry : best;
+  });
+}
+
+function summarizeDay(date: string, entries: any[], timezoneOffset: number): DailyForecast {
+  const midday = pickMidday(entries, timezoneOffset);
+  return {
+    date,
+    minTemperature: Math.round(Math.min(...entries.map(e => e.main.temp_min))),
+    maxTemperature: Math.round(Math.max(...entries.map(e => e.main.temp_max))),
+    description: midday.weather[0].description,
+    main: midday.weather[0].main,
+    precipitationChance: Math.round(Math.max(...entries.map(e => e.pop || 0)) * 100),
+    humidity: Math.round(entries.reduce((sum, e) => sum + e.main.humidity, 0) / entries.length),
+    windSpeed: Math.max(...entries.map(e => e.wind?.speed || 0))
+  };
+}
+
+/** Explain how the requested range compares to the dates the forecast covers */
+function coverageNote(range: DateRange, firstDate: string, lastDate: string): string | undefined {
+  if (range.end < firstDate || range.start > lastDate) {
+    throw new Error(`No forecast for ${range.start}${range.end !== range.start ? ` to ${range.end}` : ''}: forecasts cover ${firstDate} to ${lastDate}`);
+  }
+  if (range.start < firstDate || range.end > lastDate) {
+    return `Forecasts only cover ${firstDate} to ${lastDate}`;
+  }
+  return undefined;
+}
+
+function describePlace({ location, coordinates }: WeatherQuery): string {
+  if (location) {
+    return location;
+  }
+  return coordinates ? `${coordinates.lat.toFixed(3)}, ${coordinates.lon.toFixed(3)}` : 'unknown location';
+}
+
+/** Query parameters for the place, units and language of a lookup */
+function lookupParams(query: WeatherQuery): Record<string, string> {
+  const params: Record<string, string> = { units: query.units || 'metric', lang: query.lang || 'en' };
+  if (query.location) {
+    params.q = query.location;
+  } else if (query.coordinates) {
+    params.lat = String(query.coordinates.lat);
+    params.lon = String(query.coordinates.lon);
+  } else {
+    throw new Error('No location given');
+  }
+  return params;
+}
+
+async function getCurrentWeather(query: WeatherQuery, signal?: AbortSignal): Promise<CurrentWeather> {
+  const data = await callOpenWeather('weather', lookupParams(query), signal);
+
+  return {
+    success: true,
+    kind: 'current',
+    location: data.name || describePlace(query),
+    country: data.sys.country,
+    units: query.units || 'metric',
+    temperature: Math.round(data.main.temp),
+    feelsLike: Math.round(data.main.feels_like),
+    humidity: data.main.humidity,
+    pressure: data.main.pressure,
+    description: data.weather[0].description,
+    main: data.weather[0].main,
+    windSpeed: data.wind?.speed || 0,
+    windDirection: data.wind?.deg || 0,
+    visibility: data.visibility ? Math.round(data.visibility / 1000) : null,
+    sunrise: new Date(data.sys.sunrise * 1000).toLocaleTimeString(),
+    sunset: new Date(data.sys.sunset * 1000).toLocaleTimeString(),
+    timestamp: new Date().toISOString()
+  };
+}
+
+async function getForecastData(query: WeatherQuery, signal?: AbortSignal) {
+  const data = await callOpenWeather('forecast', lookupParams(query), signal);
+  const timezoneOffset: number = data.city?.timezone || 0;
+  const entries: any[] = data.list || [];
+
+  if (entries.length === 0) {
+    throw new Error(`No forecast available for "${describePlace(query)}"`);
+  }
+
+  return {
+    location: data.city?.name || describePlace(query),
+    country: data.city?.country || '',
+    units: query.units || 'metric',
+    timezoneOffset,
+    today: localTime(Date.now() / 1000, timezoneOffset).slice(0, 10),
+    entries
+  };
+}
+
+function parseRange(when: string | undefined, today: string, fallback: DateRange): DateRange {
+  if (!when) {
+    return fallback;
+  }
+  const range = resolveDateRange(when, today);
+  if (!range) {
+    throw new Error(`Could not understand the date range "${when}". Use words like "tomorrow" or "this weekend", or dates like 2025-06-01.`);
+  }
+  return range;
+}
+
+async function getDailyForecast(query: WeatherQuery, signal?: AbortSignal): Promise<WeatherForecast> {
+  const forecast = await getForecastData(query, signal);
+  const range = parseRange(query.when, forecast.today, { start: forecast.today, end: addDays(forecast.today, 4) });
+
+  const byDate = new Map<string, any[]>();
+  for (const entry of forecast.entries) {
+    const date = localTime(entry.dt, forecast.timezoneOffset).slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) || []), entry]);
+  }
+  const dates = Array.from(byDate.keys());
+  const note = coverageNote(range, dates[0], dates[dates.length - 1]);
+
+  return {
+    success: true,
+    kind: 'forecast',
+    location: forecast.location,
+    country: forecast.country,
+    units: forecast.units,
+    range,
+    days: dates
+      .filter(date => date >= range.start && date <= range.end)
+      .map(date => summarizeDay(date, byDate.get(date)!, forecast.timezoneOffset)),
+    note,
+    timestamp: new Date().toISOString()
+  };
+}
+
+async function getHourlyForecast(query: WeatherQuery, signal?: AbortSignal): Promise<HourlyWeather> {
+  const { when } = query;
+  const forecast = await getForecastData(query, signal);
+  const hours: HourlyForecast[] = forecast.entries.map(entry => ({
+    time: localTime(entry.dt, forecast.timezoneOffset),
+    temperature: Math.round(entry.main.temp),
+    feelsLike: Math.round(entry.main.feels_like),
+    description: entry.weather[0].description,
+    main: entry.weather[0].main,
+    precipitationChance: Math.round((entry.pop || 0) * 100),
+    windSpeed: entry.wind?.speed || 0
+  }));
+
+  // Without a range, the next 24 hours
+  const upcoming = when ? hours : hours.slice(0, 8);
+  const range = parseRange(when, forecast.today, {
+    start: upcoming[0].time.slice(0, 10),
+    end: upcoming[upcoming.length - 1].time.slice(0, 10)
+  });
+  const note = coverageNote(range, hours[0].time.slice(0, 10), hours[hours.length - 1].time.slice(0, 10));
+
+  return {
+    success: true,
+    kind: 'hourly',
+    location: forecast.location,
+    country: forecast.country,
+    units: forecast.units,
+    range,
+    hours: upcoming.filter(hour => hour.time.slice(0, 10) >= range.start && hour.time.slice(0, 10) <= range.end),
+    note,
+    timestamp: new Date().toISOString()
+  };
+}
+
+async function getAirQuality(query: WeatherQuery, signal?: AbortSignal): Promise<AirQuality> {
+  const { location, coordinates } = query;
+  const places = location
+    ? await callOpenWeather('geocode', { q: location, limit: '1' }, signal)
+    : coordinates
+      ? await callOpenWeather('reverse_geocode', { lat: String(coordinates.lat), lon: String(coordinates.lon), limit: '1' }, signal)
+      : [];
+  // Reverse geocoding only names the place; coordinates are usable without it
+  const place = Array.isArray(places) && places[0]
+    ? places[0]
+    : !location && coordinates ? { name: describePlace(query), country: '', ...coordinates } : null;
+  if (!place) {
+    throw new Error(`Location "${describePlace(query)}" not found`);
+  }
+
+  const data = await callOpenWeather('air_pollution', { lat: String(place.lat), lon: String(place.lon) }, signal);
+  const reading = data.list?.[0];
+  if (!reading) {
+    throw new Error(`No air quality data for "${describePlace(query)}"`);
+  }
+
+  const { pm2_5, pm10, o3, no2, so2, co } = reading.components;
+  return {
+    success: true,
+    kind: 'air_quality',
+    location: place.name,
+    country: place.country,
+    units: query.units || 'metric',
+    aqi: reading.main.aqi,
+    aqiLabel: AQI_LABELS[reading.main.aqi - 1] || 'Unknown',
+    components: { pm2_5, pm10, o3, no2, so2, co },
+    timestamp: new Date().toISOString()
+  };
+}
+
+export async function getWeatherData(query: WeatherQuery, signal?: AbortSignal): Promise<WeatherResult> {
+  try {
+    console.log('🌤️ Fetching weather data:', query);
+
+    let result: WeatherResult;
+    switch (query.kind) {
+      case 'forecast':
+        result = await getDailyForecast(query, signal);
+        break;
+      case 'hourly':
+        result = await getHourlyForecast(query, signal);
+        break;
+      case 'air_quality':
+        result = await getAirQuality(query, signal);
+        break;
+      case 'current':
+      default:
+        result = await getCurrentWeather(query, signal);
+    }
+
+    console.log('✅ Weather data retrieved for:', describePlace(query));
+    return result;
 
   } catch (error: any) {
     console.error('❌ Weather API error:', error.message);
     return {
       success: false,
+      kind: query.kind,
+      location: describePlace(query),
       error: error.message,
-      location: location,
       timestamp: new Date().toISOString()
     };
   }
 }
 
-export function shouldTriggerWeatherSearch(message: string): boolean {
-  const weatherKeywords = [
-    'weather', 'temperature', 'forecast', 'rain', 'sunny', 'cloudy',
-    'snow', 'wind', 'humidity', 'hot', 'cold', 'warm', 'cool',
-    'storm', 'thunder', 'lightning', 'fog', 'mist', 'drizzle',
-    'climate', 'season', 'degrees', 'celsius', 'fahrenheit'
-  ];
-
-  const lowerMessage = message.toLowerCase();
-  return weatherKeywords.some(keyword => lowerMessage.includes(keyword));
-}
-
-export function extractLocationFromMessage(message: string): string | null {
-  const patterns = [
-    /weather in (.+)/i,
-    /weather for (.+)/i,
-    /weather at (.+)/i,
-    /temperature in (.+)/i,
-    /temperature for (.+)/i,
-    /forecast for (.+)/i,
-    /forecast in (.+)/i,
-    /how is the weather in (.+)/i,
-    /what's the weather in (.+)/i,
-    /what is the weather in (.+)/i,
-    /current weather in (.+)/i,
-    /current weather for (.+)/i,
-    /current weather at (.+)/i
-  ];
-
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match && match[1]) {
-      return match[1].trim();
-    }
-  }
-
-  return null;
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
 
-export function formatWeatherResults(weatherData: any): string {
-  if (!weatherData.success) {
-    return `🌤️ **Weather Error**\n\n${weatherData.error}`;
-  }
+function placeName(location: string, country: string): string {
+  return country ? `${location}, ${country}` : location;
+}
 
-  const { location, country, temperature, feelsLike, humidity, description, windSpeed, visibility, sunrise, sunset } = weatherData;
+function formatCurrent(weatherData: CurrentWeather): string {
+  const { location, country, units, temperature, feelsLike, humidity, description, windSpeed, visibility, sunrise, sunset } = weatherData;
+  const { temperature: deg, speed } = UNIT_LABELS[units];
 
-  let formatted = `🌤️ **Weather in ${location}, ${country}**\n\n`;
-  formatted += `🌡️ **${temperature}°C** (feels like ${feelsLike}°C)\n`;
-  formatted += `☁️ ${description.charAt(0).toUpperCase() + description.slice(1)}\n`;
+  let formatted = `🌤️ **Weather in ${placeName(location, country)}**\n\n`;
+  formatted += `🌡️ **${temperature}${deg}** (feels like ${feelsLike}${deg})\n`;
+  formatted += `☁️ ${capitalize(description)}\n`;
   formatted += `💧 Humidity: ${humidity}%\n`;
-  
+
   if (windSpeed > 0) {
-    formatted += `💨 Wind: ${windSpeed} m/s\n`;
+    formatted += `💨 Wind: ${windSpeed} ${speed}\n`;
   }
-  
+
   if (visibility) {
     formatted += `👁️ Visibility: ${visibility} km\n`;
   }
-  
+
   formatted += `🌅 Sunrise: ${sunrise}\n`;
   formatted += `🌇 Sunset: ${sunset}\n`;
-  formatted += `\n---\n🟢 *Live Weather Data* • Updated ${new Date(weatherData.timestamp).toLocaleTimeString()}`;
+  return formatted;
+}
+
+function formatForecast({ location, country, units, days, note }: WeatherForecast): string {
+  const { temperature: deg, speed } = UNIT_LABELS[units];
+  let formatted = `📅 **Forecast for ${placeName(location, country)}**\n\n`;
+  for (const day of days) {
+    formatted += `**${day.date}** (${capitalize(WEEKDAYS[weekday(day.date)])}): ${day.minTemperature}${deg} to ${day.maxTemperature}${deg}, ${day.description}`;
+    formatted += ` • 🌧️ ${day.precipitationChance}% • 💧 ${day.humidity}% • 💨 ${day.windSpeed} ${speed}\n`;
+  }
+  if (note) {
+    formatted += `\n⚠️ ${note}\n`;
+  }
+  return formatted;
+}
+
+function formatHourly({ location, country, units, hours, note }: HourlyWeather): string {
+  const { temperature: deg, speed } = UNIT_LABELS[units];
+  let formatted = `🕒 **3-hourly forecast for ${placeName(location, country)}** (local time)\n\n`;
+  for (const hour of hours) {
+    formatted += `${hour.time.replace('T', ' ')}: ${hour.temperature}${deg} (feels like ${hour.feelsLike}${deg}), ${hour.description}`;
+    formatted += ` • 🌧️ ${hour.precipitationChance}% • 💨 ${hour.windSpeed} ${speed}\n`;
+  }
+  if (note) {
+    formatted += `\n⚠️ ${note}\n`;
+  }
+  return formatted;
+}
 
+function formatAirQuality({ location, country, aqi, aqiLabel, components }: AirQuality): string {
+  let formatted = `🌫️ **Air quality in ${placeName(location, country)}**\n\n`;
+  formatted += `**AQI ${aqi}/5 - ${aqiLabel}**\n`;
+  formatted += `PM2.5: ${components.pm2_5} μg/m³ • PM10: ${components.pm10} μg/m³\n`;
+  formatted += `O₃: ${components.o3} • NO₂: ${components.no2} • SO₂: ${components.so2} • CO: ${components.co} μg/m³\n`;
   return formatted;
 }
 
+export function formatWeatherResults(weatherData: WeatherResult): string {
+  if (!weatherData.success) {
+    return `🌤️ **Weather Error**\n\n${weatherData.error}`;
+  }
+
+  let formatted: string;
+  switch (weatherData.kind) {
+    case 'forecast':
+      formatted = formatForecast(weatherData);
+      break;
+    case 'hourly':
+      formatted = formatHourly(weatherData);
+      break;
+    case 'air_quality':
+      formatted = formatAirQuality(weatherData);
+      break;
+    default:
+      formatted = formatCurrent(weatherData);
+  }
+
+  formatted += `\n---\n🟢 *Live Weather Data* • Updated ${new Date(weatherData.timestamp).toLocaleTimeString()}`;
+  return formatted;
+}
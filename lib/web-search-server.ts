@@ -1,79 +1,262 @@
 /**
  * Web Search Server Utility for Next.js API Routes
+ *
+ * Every backend (Google Custom Search, Brave, SearXNG, Bing, fixture)
+ * implements the same provider interface. Enable one or more with
+ * SEARCH_PROVIDERS=google,brave,searxng,bing,fixture (default: google); results
+ * from several providers are interleaved and de-duplicated by URL.
+ *
+ * SEARCH_RESULT_COUNT, SEARCH_SAFE_SEARCH (off|moderate|strict) and
+ * SEARCH_LANGUAGE set the defaults for every search.
  */
 
-// Cache for search results (stores last 5 searches)
-const searchCache = new Map<string, any>();
-const MAX_CACHE_SIZE = 5;
+import {
+  createBingSearchProvider,
+  createBraveSearchProvider,
+  createFixtureSearchProvider,
+  createGoogleSearchProvider,
+  createSearxngSearchProvider
+} from "./search-providers-server";
+import { createCache } from "./cache-server";
 
-export async function getWebResults(query: string) {
+export type SafeSearchLevel = "off" | "moderate" | "strict";
+export type SearchRecency = "day" | "week" | "month" | "year";
+export type SearchProviderName = "google" | "brave" | "searxng" | "bing" | "fixture";
+
+export const SAFE_SEARCH_LEVELS: SafeSearchLevel[] = ["off", "moderate", "strict"];
+export const SEARCH_RECENCIES: SearchRecency[] = ["day", "week", "month", "year"];
+export const MAX_SEARCH_RESULTS = 10;
+
+const PROVIDER_NAMES: SearchProviderName[] = ["google", "brave", "searxng", "bing", "fixture"];
+
+export interface SearchOptions {
+  /** Results wanted, 1 to MAX_SEARCH_RESULTS */
+  count: number;
+  safeSearch: SafeSearchLevel;
+  /** Only pages from the past day, week, month or year */
+  recency?: SearchRecency;
+  /** ISO 639-1 code, e.g. "en" */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+/** A result as a provider returns it */
+export interface ProviderResult {
+  title: string;
+  link: string;
+  snippet?: string;
+  displayLink?: string;
+}
+
+export interface SearchProvider {
+  name: string;
+  search(query: string, options: SearchOptions): Promise<ProviderResult[]>;
+}
+
+export interface SearchResultItem {
+  rank: number;
+  title: string;
+  snippet: string;
+  link: string;
+  displayLink: string;
+  /** Provider that returned the result (the first one, if several did) */
+  provider: string;
+}
+
+export interface WebSearchResult {
+  success: boolean;
+  query: string;
+  results: SearchResultItem[];
+  /** Providers that answered */
+  providers: string[];
+  error?: string;
+  message?: string;
+}
+
+// Cache for search results
+const searchCache = createCache<WebSearchResult>({
+  namespace: 'web_search',
+  ttlMs: 30 * 60 * 1000, // 30 minutes
+  maxEntries: 50
+});
+
+let activeProviders: SearchProvider[] | null = null;
+
+function createSearchProvider(name: SearchProviderName): SearchProvider {
+  switch (name) {
+    case "brave":
+      return createBraveSearchProvider(process.env.BRAVE_SEARCH_API_KEY);
+    case "searxng":
+      return createSearxngSearchProvider(process.env.SEARXNG_URL);
+    case "bing":
+      return createBingSearchProvider(process.env.BING_SEARCH_API_KEY, process.env.BING_SEARCH_ENDPOINT || undefined);
+    case "fixture":
+      return createFixtureSearchProvider(process.env.SEARCH_FIXTURE);
+    case "google":
+    default:
+      return createGoogleSearchProvider(process.env.GOOGLE_API_KEY, process.env.SEARCH_ENGINE_ID);
+  }
+}
+
+/**
+ * Get the configured search providers (created once per server instance)
+ */
+export function getSearchProviders(): SearchProvider[] {
+  if (activeProviders) {
+    return activeProviders;
+  }
+
+  const configured = (process.env.SEARCH_PROVIDERS || "google")
+    .split(",")
+    .map(name => name.toLowerCase().trim())
+    .filter(Boolean);
+
+  const names = Array.from(new Set(configured)).filter(name => {
+    if (!PROVIDER_NAMES.includes(name as SearchProviderName)) {
+      console.warn(`⚠️ Unknown search provider "${name}" in SEARCH_PROVIDERS, ignoring it`);
+      return false;
+    }
+    return true;
+  }) as SearchProviderName[];
+
+  activeProviders = (names.length > 0 ? names : ["google" as const]).map(createSearchProvider);
+  console.log(`🔍 Search providers: ${activeProviders.map(p => p.name).join(", ")}`);
+  return activeProviders;
+}
+
+/** Default search options from the environment */
+export function defaultSearchOptions(): SearchOptions {
+  const count = Number(process.env.SEARCH_RESULT_COUNT);
+  const safeSearch = (process.env.SEARCH_SAFE_SEARCH || "").toLowerCase().trim();
+
+  return {
+    count: Number.isInteger(count) && count > 0 ? Math.min(count, MAX_SEARCH_RESULTS) : 3,
+    safeSearch: SAFE_SEARCH_LEVELS.includes(safeSearch as SafeSearchLevel) ? (safeSearch as SafeSearchLevel) : "strict",
+    language: process.env.SEARCH_LANGUAGE || undefined
+  };
+}
+
+/**
+ * URL identity for de-duplication: ignores the scheme, "www.", a trailing
+ * slash, the fragment and tracking parameters
+ */
+export function normalizeResultUrl(link: string): string {
   try {
-    // Check cache first
-    const cacheKey = query.toLowerCase().trim();
-    if (searchCache.has(cacheKey)) {
-      console.log('🔍 Using cached search results for:', query);
-      return searchCache.get(cacheKey);
+    const url = new URL(link);
+    url.hash = "";
+    for (const key of Array.from(url.searchParams.keys())) {
+      if (key.startsWith("utm_") || key === "ref") {
+        url.searchParams.delete(key);
+      }
+    }
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    const path = url.pathname.replace(/\/+$/, "");
+    return `${host}${path}${url.search}`;
+  } catch {
+    return link.trim().toLowerCase();
+  }
+}
+
+function hostnameOf(link: string): string {
+  try {
+    return new URL(link).hostname;
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * Interleave each provider's results by rank (so every provider contributes
+ * its best results) and drop URLs that were already seen
+ */
+export function mergeSearchResults(lists: { provider: string; results: ProviderResult[] }[], count: number): SearchResultItem[] {
+  const seen = new Set<string>();
+  const merged: SearchResultItem[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.results.length));
+
+  for (let i = 0; i < longest && merged.length < count; i++) {
+    for (const { provider, results } of lists) {
+      const result = results[i];
+      if (!result?.link || merged.length >= count) continue;
+
+      const key = normalizeResultUrl(result.link);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      merged.push({
+        rank: merged.length + 1,
+        title: result.title || 'No title',
+        snippet: result.snippet || 'No description available',
+        link: result.link,
+        displayLink: result.displayLink || hostnameOf(result.link),
+        provider
+      });
     }
+  }
 
-    if (!process.env.GOOGLE_API_KEY || !process.env.SEARCH_ENGINE_ID) {
-      throw new Error('Google Custom Search API credentials not configured');
+  return merged;
+}
+
+export async function getWebResults(query: string, overrides: Partial<SearchOptions> = {}): Promise<WebSearchResult> {
+  const { signal, ...settings } = overrides;
+  const options: SearchOptions = { ...defaultSearchOptions(), ...settings, signal };
+  options.count = Math.max(1, Math.min(Math.round(options.count), MAX_SEARCH_RESULTS));
+
+  try {
+    // Check cache first
+    const cacheKey = JSON.stringify([query.toLowerCase().trim(), options.count, options.safeSearch, options.recency, options.language]);
+    const cached = await searchCache.get(cacheKey);
+    if (cached) {
+      console.log('🔍 Using cached search results for:', query);
+      return cached;
     }
 
-    console.log('🌐 Fetching web results for:', query);
+    const providers = getSearchProviders();
+    console.log('🌐 Fetching web results for:', query, `(${providers.map(p => p.name).join(", ")})`);
 
-    const apiUrl = new URL('https://www.googleapis.com/customsearch/v1');
-    apiUrl.searchParams.append('key', process.env.GOOGLE_API_KEY);
-    apiUrl.searchParams.append('cx', process.env.SEARCH_ENGINE_ID);
-    apiUrl.searchParams.append('q', query);
-    apiUrl.searchParams.append('num', '3');
-    apiUrl.searchParams.append('safe', 'active');
+    const outcomes = await Promise.allSettled(providers.map(provider => provider.search(query, options)));
+    const lists: { provider: string; results: ProviderResult[] }[] = [];
+    const errors: string[] = [];
 
-    const response = await fetch(apiUrl.toString(), {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'AI-Orb-Chatbot/1.0'
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        lists.push({ provider: providers[index].name, results: outcome.value });
+      } else {
+        console.error(`❌ Web search error (${providers[index].name}):`, outcome.reason?.message);
+        errors.push(outcome.reason?.message || `${providers[index].name} search failed`);
       }
     });
 
-    if (!response.ok) {
-      throw new Error(`Google Custom Search API error: ${response.status} ${response.statusText}`);
+    // Only fail when no provider answered
+    if (lists.length === 0) {
+      throw new Error(errors.join('; '));
     }
 
-    const data = await response.json();
+    const results = mergeSearchResults(lists, options.count);
 
-    if (!data.items || data.items.length === 0) {
+    if (results.length === 0) {
       return {
         success: false,
         message: 'No search results found',
         results: [],
+        providers: lists.map(list => list.provider),
         query: query
       };
     }
 
-    const formattedResults = data.items.map((item: any, index: number) => ({
-      rank: index + 1,
-      title: item.title || 'No title',
-      snippet: item.snippet || 'No description available',
-      link: item.link || '#',
-      displayLink: item.displayLink || new URL(item.link || '').hostname
-    }));
-
-    const searchResult = {
+    const searchResult: WebSearchResult = {
       success: true,
-      results: formattedResults,
-      query: query,
-      totalResults: data.searchInformation?.totalResults || '0',
-      searchTime: data.searchInformation?.searchTime || '0'
+      results,
+      providers: lists.map(list => list.provider),
+      query: query
     };
 
-    // Cache the result
-    if (searchCache.size >= MAX_CACHE_SIZE) {
-      const firstKey = searchCache.keys().next().value;
-      searchCache.delete(firstKey);
+    // Cache the result (only complete answers, so a failed provider is retried)
+    if (errors.length === 0) {
+      await searchCache.set(cacheKey, searchResult);
     }
-    searchCache.set(cacheKey, searchResult);
 
-    console.log('✅ Found', formattedResults.length, 'search results for:', query);
+    console.log('✅ Found', results.length, 'search results for:', query);
     return searchResult;
 
   } catch (error: any) {
@@ -82,36 +265,33 @@ export async function getWebResults(query: string) {
       success: false,
       error: error.message,
       results: [],
+      providers: [],
       query: query
     };
   }
 }
 
-export function shouldTriggerWebSearch(message: string): boolean {
-  const searchKeywords = [
-    'latest', 'today', 'current', 'news', 'weather', 'recent',
-    'now', 'happening', 'breaking', 'update', 'trending',
-    'what is', 'who is', 'when did', 'where is', 'how to',
-    'best', 'top', 'new', 'recent', '2024', '2025'
-  ];
-
-  const lowerMessage = message.toLowerCase();
-  return searchKeywords.some(keyword => lowerMessage.includes(keyword));
-}
-
-export function formatSearchResults(searchResult: any): string {
+/**
+ * Format results for the model. With `sources` (the results numbered for
+ * this reply) each result is labelled [n] so the answer can cite it.
+ */
+export function formatSearchResults(searchResult: WebSearchResult, sources: { number: number; url: string }[] = []): string {
   if (!searchResult.success || !searchResult.results.length) {
     return `🔍 **Search Results**\n\nNo results found for "${searchResult.query}". Please try a different search term.`;
   }
 
   let formatted = `🔎 **Here's what I found:**\n\n`;
-  
-  searchResult.results.forEach((result: any) => {
-    formatted += `${result.rank}. **[${result.title}](${result.link})**\n`;
+
+  searchResult.results.forEach((result) => {
+    const number = sources.find(source => source.url === result.link)?.number;
+    formatted += number ? `[${number}] ` : `${result.rank}. `;
+    formatted += `**[${result.title}](${result.link})**\n`;
     formatted += `   - ${result.snippet}\n\n`;
   });
 
-  formatted += `\n---\n🟢 *Live Data* • ${searchResult.totalResults} total results found`;
+  formatted += `\n---\n🟢 *Live Data* • ${searchResult.results.length} results from ${searchResult.providers.join(", ")}`;
+  if (sources.length > 0) {
+    formatted += `\nCite the results you use inline by number, e.g. [${sources[0].number}].`;
+  }
   return formatted;
 }
-
@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+
+/**
+ * Document Fixture Generator
+ * Writes the files in fixtures/documents/ that the document extraction tests
+ * read: one small file per format, plus malformed and oversized ones.
+ *
+ * Run with `node scripts/generate-document-fixtures.js`; the output is
+ * deterministic, so the committed fixtures only change with this script.
+ */
+
+import fs from 'fs';
+import zlib from 'zlib';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const outputDir = join(__dirname, '..', 'fixtures', 'documents');
+
+// A ZIP archive of deflated entries (fixed timestamps keep the output stable)
+function zip(entries) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const compressed = zlib.deflateRawSync(data, { level: 9 });
+    const crc = zlib.crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(0x21, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// A PDF with one Helvetica page per content stream, the streams deflated
+function pdf(pages, { encrypted = false } = {}) {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+  for (const [i, content] of pages.entries()) {
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+    const stream = zlib.deflateSync(Buffer.from(content, 'latin1'));
+    objects.push(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      stream,
+      Buffer.from('\nendstream', 'latin1')
+    ]));
+  }
+
+  const parts = [Buffer.from('%PDF-1.4\n', 'latin1')];
+  const offsets = [];
+  let length = parts[0].length;
+  for (const [i, object] of objects.entries()) {
+    const bytes = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+      Buffer.isBuffer(object) ? object : Buffer.from(object, 'latin1'),
+      Buffer.from('\nendobj\n', 'latin1')
+    ]);
+    offsets.push(length);
+    parts.push(bytes);
+    length += bytes.length;
+  }
+
+  const xref = [
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+    ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n \n`),
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${encrypted ? ' /Encrypt << /Filter /Standard /V 1 >>' : ''} >>\n`,
+    `startxref\n${length}\n%%EOF\n`
+  ].join('');
+  parts.push(Buffer.from(xref, 'latin1'));
+  return Buffer.concat(parts);
+}
+
+const textPage = (lines) =>
+  `BT /F1 12 Tf 72 720 Td ${lines.map((line, i) => `${i > 0 ? '0 -16 Td ' : ''}(${line}) Tj`).join(' ')} ET`;
+
+const contentTypes = (overrides) =>
+  `<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">${overrides.map(([part, type]) => `<Override PartName="/${part}" ContentType="${type}"/>`).join('')}</Types>`;
+
+const sheetXml = (rows) =>
+  `<?xml version="1.0" encoding="UTF-8"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+
+// A workbook whose sheets are given as sheet XML
+function workbook(sheets, sharedStrings = []) {
+  const names = Object.keys(sheets);
+  const entries = {
+    '[Content_Types].xml': contentTypes([['xl/workbook.xml', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml']]),
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${names.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}</Relationships>`
+  };
+  if (sharedStrings.length > 0) {
+    entries['xl/sharedStrings.xml'] = `<?xml version="1.0" encoding="UTF-8"?><sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${sharedStrings.map(text => `<si><t>${text}</t></si>`).join('')}</sst>`;
+  }
+  names.forEach((name, i) => {
+    entries[`xl/worksheets/sheet${i + 1}.xml`] = sheets[name];
+  });
+  return zip(entries);
+}
+
+function wordDocument(body) {
+  return zip({
+    '[Content_Types].xml': contentTypes([['word/document.xml', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml']]),
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`
+  });
+}
+
+const paragraph = (text, style) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+function presentation(slides) {
+  const entries = {
+    '[Content_Types].xml': contentTypes([['ppt/presentation.xml', 'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml']]),
+    'ppt/presentation.xml': `<?xml version="1.0" encoding="UTF-8"?><p:presentation xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`).join('')}</p:sldIdLst></p:presentation>`,
+    'ppt/_rels/presentation.xml.rels': `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${slides.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide${i + 1}.xml"/>`).join('')}</Relationships>`
+  };
+  slides.forEach((paragraphs, i) => {
+    entries[`ppt/slides/slide${i + 1}.xml`] = `<?xml version="1.0" encoding="UTF-8"?><p:sld xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><p:cSld><p:spTree><p:sp><p:txBody>${paragraphs.map(text => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join('')}</p:txBody></p:sp></p:spTree></p:cSld></p:sld>`;
+  });
+  return zip(entries);
+}
+
+const memo = wordDocument([
+  paragraph('Team Offsite', 'Title'),
+  paragraph('Agenda', 'Heading1'),
+  paragraph('We meet in Lisbon on 12 May &amp; 13 May.'),
+  `<w:tbl><w:tr><w:tc>${paragraph('Day')}</w:tc><w:tc>${paragraph('Topic')}</w:tc></w:tr><w:tr><w:tc>${paragraph('Monday')}</w:tc><w:tc>${paragraph('Roadmap | priorities')}</w:tc></w:tr></w:tbl>`
+].join(''));
+
+// A sheet with a cell in column A and one in XFD (the last column) on every row
+const wideRows = Array.from({ length: 3000 }, (_, i) =>
+  `<row r="${i + 1}"><c r="A${i + 1}" t="inlineStr"><is><t>Row ${i + 1}</t></is></c><c r="XFD${i + 1}"><v>${i}</v></c></row>`
+);
+
+// 40MB of whitespace per sheet: each entry is under the per-entry limit, all three are over the total
+const padding = ' '.repeat(40 * 1024 * 1024);
+
+const fixtures = {
+  'notes.txt': 'Meeting notes\n\nThe launch moves to June.\n',
+  'prices.csv': 'Item;Price\n"Coffee; large";3.50\nTea;2.00\n',
+  'report.pdf': pdf([
+    textPage(['Quarterly Report', 'Revenue grew 12% in Q3.']),
+    textPage(['Outlook', 'Hiring continues in Lisbon.'])
+  ]),
+  'memo.docx': memo,
+  'budget.xlsx': workbook({
+    Summary: sheetXml([
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>',
+      '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2"><v>1200</v></c><c r="C2" t="b"><v>1</v></c></row>',
+      '<row r="3"><c r="A3" t="inlineStr"><is><t>Travel</t></is></c><c r="C3" t="b"><v>0</v></c></row>'
+    ]),
+    Notes: sheetXml(['<row r="1"><c r="B1" t="inlineStr"><is><t>Approved by finance</t></is></c></row>'])
+  }, ['Category', 'Amount', 'Approved', 'Rent']),
+  'deck.pptx': presentation([
+    ['Product Roadmap', 'Ship search in Q3'],
+    ['Questions?']
+  ]),
+  // Malformed
+  'truncated.docx': memo.subarray(0, Math.floor(memo.length / 2)),
+  'not-a-zip.xlsx': Buffer.from('This is a plain text file with the wrong extension.\n'),
+  'encrypted.pdf': pdf([textPage(['Secret'])], { encrypted: true }),
+  'scanned.pdf': pdf(['q 612 0 0 792 0 0 cm Q']),
+  // Oversized
+  'wide.xlsx': workbook({ Wide: sheetXml(wideRows) }),
+  'bomb.xlsx': workbook({
+    One: sheetXml([padding]),
+    Two: sheetXml([padding]),
+    Three: sheetXml([padding])
+  })
+};
+
+fs.mkdirSync(outputDir, { recursive: true });
+for (const [name, content] of Object.entries(fixtures)) {
+  fs.writeFileSync(join(outputDir, name), content);
+  console.log(`📄 ${name}: ${Buffer.byteLength(content)} bytes`);
+}
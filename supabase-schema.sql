@@ -9,6 +9,10 @@ CREATE TABLE IF NOT EXISTS chats (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL,
   title TEXT DEFAULT 'New Chat',
+  summary TEXT,
+  summarized_until TIMESTAMP WITH TIME ZONE,
+  -- The chat answers from the user's document library
+  use_documents BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -19,14 +23,140 @@ CREATE TABLE IF NOT EXISTS messages (
   chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
   role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
   content TEXT NOT NULL,
+  -- Messages form a tree: parent_id is the message this one follows (NULL for the first).
+  -- Edits and regenerated replies are siblings; is_active marks the chosen one.
+  parent_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- 'stopped' marks a partial reply the user cancelled
+  status TEXT NOT NULL DEFAULT 'complete' CHECK (status IN ('complete', 'stopped')),
+  -- Web search results the reply cites as [n]: [{ number, title, url, snippet }]
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Suggested next prompts shown as chips under a reply: ["...", "..."]
+  follow_ups JSONB NOT NULL DEFAULT '[]'::jsonb,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create user_memories table (long-term facts remembered across chats)
+CREATE TABLE IF NOT EXISTS user_memories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create user_settings table (one row per user; missing rows mean defaults)
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY,
+  personality TEXT NOT NULL DEFAULT 'friendly' CHECK (personality IN ('friendly', 'formal', 'sarcastic', 'concise')),
+  custom_instructions TEXT NOT NULL DEFAULT '',
+  orb_animation BOOLEAN NOT NULL DEFAULT TRUE,
+  voice_interaction BOOLEAN NOT NULL DEFAULT FALSE,
+  disabled_tools TEXT[] NOT NULL DEFAULT '{}',
+  weather_units TEXT NOT NULL DEFAULT 'metric' CHECK (weather_units IN ('metric', 'imperial')),
+  weather_language TEXT NOT NULL DEFAULT 'en',
+  default_city TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create tool_cache table (shared tool result cache, used with TOOL_CACHE_BACKEND=supabase)
+CREATE TABLE IF NOT EXISTS tool_cache (
+  namespace TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accessed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (namespace, key)
+);
+
+-- Create attachments table (files sent with user messages; the bytes live in attachment storage)
+CREATE TABLE IF NOT EXISTS attachments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  -- Key in the storage backend; an edited message's copies share the original's key
+  storage_key TEXT NOT NULL,
+  -- The text the model was given for the file (NULL for images)
+  extracted_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create documents table (the user's document library; files live in attachment storage)
+CREATE TABLE IF NOT EXISTS documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  storage_key TEXT NOT NULL,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create document_chunks table (searchable passages of library documents)
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  -- Page, sheet or slide the passage is from, e.g. 'Page 3' (NULL if the document has none)
+  location TEXT,
+  content TEXT NOT NULL
+);
+
+-- Columns added after the initial release (safe to re-run on existing databases)
+-- Rolling conversation summary: messages up to summarized_until are folded into summary
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS summarized_until TIMESTAMP WITH TIME ZONE;
+-- "Answer from my documents"
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS use_documents BOOLEAN NOT NULL DEFAULT FALSE;
+-- Message tree: siblings share parent_id, following active children from the root gives the shown branch
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+-- Link messages saved before the tree existed to the active message before them.
+-- Only touches chats that were never branched (no user message has a parent or was edited away).
+UPDATE messages m
+SET parent_id = (
+  SELECT p.id FROM messages p
+  WHERE p.chat_id = m.chat_id AND p.is_active AND p.created_at < m.created_at
+  ORDER BY p.created_at DESC
+  LIMIT 1
+)
+WHERE m.parent_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM messages u
+    WHERE u.chat_id = m.chat_id AND u.role = 'user' AND (u.parent_id IS NOT NULL OR NOT u.is_active)
+  );
+-- Partial replies saved when the user stops generation
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'complete' CHECK (status IN ('complete', 'stopped'));
+-- Sources cited by web-search answers
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS sources JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS follow_ups JSONB NOT NULL DEFAULT '[]'::jsonb;
+-- Assistant tools (by name) the user switched off
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS disabled_tools TEXT[] NOT NULL DEFAULT '{}';
+-- Weather preferences: units, description language and the city used for "weather here"
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS weather_units TEXT NOT NULL DEFAULT 'metric' CHECK (weather_units IN ('metric', 'imperial'));
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS weather_language TEXT NOT NULL DEFAULT 'en';
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS default_city TEXT NOT NULL DEFAULT '';
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
 CREATE INDEX IF NOT EXISTS idx_chats_user_id ON chats(user_id);
 CREATE INDEX IF NOT EXISTS idx_chats_updated_at ON chats(updated_at);
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_id ON user_memories(user_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_message_id ON attachments(message_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_user_id ON attachments(user_id);
+CREATE INDEX IF NOT EXISTS idx_documents_user_id ON documents(user_id);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id ON document_chunks(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_user_id ON document_chunks(user_id);
+CREATE INDEX IF NOT EXISTS idx_tool_cache_expires_at ON tool_cache(namespace, expires_at);
+CREATE INDEX IF NOT EXISTS idx_tool_cache_accessed_at ON tool_cache(namespace, accessed_at);
 
 -- Create function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -46,6 +176,13 @@ CREATE TRIGGER update_chats_updated_at
 -- Enable Row Level Security (RLS)
 ALTER TABLE chats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+-- No policies: only the server (service role) reads and writes the cache
+ALTER TABLE tool_cache ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for chats (users can only access their own chats)
 CREATE POLICY "Users can view their own chats"
@@ -105,3 +242,74 @@ CREATE POLICY "Users can delete messages from their chats"
     )
   );
 
+-- Create policies for user_memories (users can only access their own memories)
+CREATE POLICY "Users can view their own memories"
+  ON user_memories FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own memories"
+  ON user_memories FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own memories"
+  ON user_memories FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own memories"
+  ON user_memories FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create policies for user_settings (users can only access their own settings)
+CREATE POLICY "Users can view their own settings"
+  ON user_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own settings"
+  ON user_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON user_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Create policies for attachments (users can only see their own files)
+CREATE POLICY "Users can view their own attachments"
+  ON attachments FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create policies for documents (users can only see their own library)
+CREATE POLICY "Users can view their own documents"
+  ON documents FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own document chunks"
+  ON document_chunks FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Vector search for the document library (DOCUMENT_INDEX=supabase, the default).
+-- Needs the pgvector extension; with DOCUMENT_INDEX=memory this part can be skipped.
+-- 768 matches EMBEDDING_DIMENSIONS in lib/llm-provider-server.ts.
+CREATE EXTENSION IF NOT EXISTS vector;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding vector(768);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding ON document_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- The user's chunks closest to a query embedding, by cosine similarity
+CREATE OR REPLACE FUNCTION match_document_chunks(query_embedding vector(768), match_user_id UUID, match_count INTEGER)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  user_id UUID,
+  chunk_index INTEGER,
+  location TEXT,
+  content TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.id, c.document_id, c.user_id, c.chunk_index, c.location, c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM document_chunks c
+  WHERE c.user_id = match_user_id AND c.embedding IS NOT NULL
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;